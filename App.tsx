@@ -1,25 +1,105 @@
 
-import React, { useState, useRef, useCallback, useEffect } from 'react';
-import type { Track } from './types';
-import { TRACKS, RAW_BASE } from './constants';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import type { Track, LensOrigin } from './types';
+import { TRACKS, LIVE_TRACK, trackUrl, trackLabel } from './constants';
 import Header from './components/Header';
 import Player from './components/Player';
 import DataView from './components/DataView';
 import SceneView from './components/SceneView';
 import Gate from './components/Gate';
+import { formatTime } from './components/SeekBar';
+import { createLocalTrack, isSupportedAudioFile, isLyricsFile, lyricsKey, releaseLocalTrack } from './components/LocalTracks';
+import { openLiveInput, listInputDevices, isLiveInputSupported, describeLiveInputError } from './components/LiveInput';
+import type { LiveInput } from './components/LiveInput';
+import { getAudioFeatures } from './components/AudioFeatures';
+import type { FrequencyBand } from './components/AudioFeatures';
+import { loadTrackTimeline } from './components/TrackAnalysis';
+import type { TrackTimeline } from './components/TrackAnalysis';
+import { loadLyrics } from './components/Lyrics';
+import type { Lyrics } from './components/Lyrics';
+import { loadCueSheet, saveCues } from './components/SceneCues';
+import type { SceneCue } from './components/SceneCues';
+import { buildOrder, syncOrder, nextTrackId, prevTrackId, REPEAT_CYCLE } from './components/PlayQueue';
+import type { RepeatMode } from './components/PlayQueue';
+import { loadTrackManifest } from './components/TrackManifest';
+import { classifyMood, classificationPatch } from './components/MoodClassifier';
+import { readUrlState, writeUrlState, replaceUrlTime } from './components/UrlState';
+import { useKeyboardShortcuts, useMediaSession, toggleFullscreen } from './components/MediaControls';
+import { useWebGLStatus } from './components/WebGLSupport';
+import WebGLNotice from './components/WebGLNotice';
 
 type View = 'gate' | 'data' | 'scene';
+type AudioSource = 'file' | 'live';
 
 const App: React.FC = () => {
   const [view, setView] = useState<View>('gate');
-  const [currentTrack, setCurrentTrack] = useState<Track>(TRACKS[0]);
+  // True while the immersive view opens over the data view or closes back onto it; both stay mounted meanwhile.
+  const [transitioning, setTransitioning] = useState(false);
+  const lensOrigin = useRef<LensOrigin | null>(null);
+  // The band the lens was over when the scene was entered; the scene keeps reacting to it.
+  const [sceneFocus, setSceneFocus] = useState<FrequencyBand | null>(null);
+  const [catalog, setCatalog] = useState<Track[]>(TRACKS);
+  const [manifestError, setManifestError] = useState<string | null>(null);
+  // Re-renders the views when WebGL turns off, so they switch to the 2D scene.
+  const webglStatus = useWebGLStatus();
+  // Where a link or reload asked to land. Audio needs a gesture first, so it waits for the resume gate.
+  const deepLink = useRef(readUrlState());
+  const initialTrack = useRef(TRACKS.find(t => t.id === deepLink.current.trackId) ?? TRACKS[0]);
+  const [resumePending, setResumePending] = useState(deepLink.current.view !== null);
+  const [catalogReady, setCatalogReady] = useState(false);
+  const [currentTrack, setCurrentTrack] = useState<Track>(initialTrack.current);
   const [isPlaying, setIsPlaying] = useState(false);
   const [volume, setVolume] = useState(0.75); // Add volume state
+  const [sessionTracks, setSessionTracks] = useState<Track[]>([]);
+  const [isDragging, setIsDragging] = useState(false);
+  const [source, setSource] = useState<AudioSource>('file');
+  const [inputDevices, setInputDevices] = useState<MediaDeviceInfo[]>([]);
+  const [inputDeviceId, setInputDeviceId] = useState('');
+  const [monitor, setMonitor] = useState(false);
+  const [liveError, setLiveError] = useState<string | null>(null);
+  const [shuffle, setShuffle] = useState(false);
+  const [repeat, setRepeat] = useState<RepeatMode>('off');
+  const [order, setOrder] = useState<string[]>(() => TRACKS.map(t => t.id));
+  const [timeline, setTimeline] = useState<TrackTimeline | null>(null);
+  const [lyrics, setLyrics] = useState<Lyrics | null>(null);
+  const [cues, setCues] = useState<SceneCue[] | null>(null);
+  const [cueReload, setCueReload] = useState(0);
+
+  const tracks = useMemo(() => [...catalog, ...sessionTracks], [catalog, sessionTracks]);
+  const tracksRef = useRef(tracks);
+  tracksRef.current = tracks;
+
+  // Effect to load the catalog manifest; the built-in list stays in place if it's unusable.
+  useEffect(() => {
+    let cancelled = false;
+    loadTrackManifest()
+      .then(loaded => {
+        if (cancelled) return;
+        setCatalog(loaded);
+        // Swap in the manifest's version of the pre-selected (or linked) track, if nothing has played yet.
+        setCurrentTrack(prev => (prev === initialTrack.current
+          ? loaded.find(t => t.id === deepLink.current.trackId) ?? loaded.find(t => t.id === prev.id) ?? loaded[0]
+          : prev));
+      })
+      .catch(e => {
+        console.warn(`${(e as Error).message}\nFalling back to the built-in track list.`);
+        if (!cancelled) setManifestError((e as Error).message);
+      })
+      .finally(() => { if (!cancelled) setCatalogReady(true); });
+    return () => { cancelled = true; };
+  }, []);
+
+  // Effect to fold tracks added during the session into the play order.
+  useEffect(() => {
+    setOrder(prev => syncOrder(prev, tracks.map(t => t.id)));
+  }, [tracks]);
 
   const audioEl = useRef<HTMLAudioElement>(null);
   const audioContext = useRef<AudioContext | null>(null);
   const analyser = useRef<AnalyserNode | null>(null);
   const sourceNode = useRef<MediaElementAudioSourceNode | null>(null);
+  const outputGain = useRef<GainNode | null>(null);
+  const liveInput = useRef<LiveInput | null>(null);
 
   // Effect to sync volume state with the audio element
   useEffect(() => {
@@ -28,118 +108,556 @@ const App: React.FC = () => {
     }
   }, [volume]);
 
-  const handleStartAudio = useCallback(async () => {
+  // Effect to mute the live monitor unless asked for, so a mic doesn't feed back.
+  useEffect(() => {
+    if (outputGain.current) {
+      outputGain.current.gain.value = source === 'live' ? (monitor ? volume : 0) : 1;
+    }
+  }, [source, monitor, volume]);
+
+  // Source -> analyser -> output gain -> speakers. Every source shares the analyser.
+  const ensureAudioGraph = useCallback(async () => {
     if (!audioContext.current) {
       const AC = new (window.AudioContext || (window as any).webkitAudioContext)();
       const an = AC.createAnalyser();
       an.fftSize = 2048;
       an.smoothingTimeConstant = 0.85;
+      const out = AC.createGain();
+      an.connect(out);
+      out.connect(AC.destination);
 
       audioContext.current = AC;
       analyser.current = an;
+      outputGain.current = out;
 
       if (audioEl.current) {
         // Set initial volume
         audioEl.current.volume = volume;
         const sn = AC.createMediaElementSource(audioEl.current);
         sn.connect(an);
-        an.connect(AC.destination);
         sourceNode.current = sn;
       }
     }
     if (audioContext.current.state === 'suspended') {
-        await audioContext.current.resume();
+        // Outside a user gesture resume() may never settle; callers check the state afterwards.
+        await Promise.race([audioContext.current.resume(), new Promise(r => setTimeout(r, 300))]);
+    }
+  }, [volume]);
+
+  const stopLiveInput = useCallback(() => {
+    if (!liveInput.current) return;
+    liveInput.current.stop();
+    liveInput.current = null;
+    if (sourceNode.current && analyser.current) {
+      sourceNode.current.connect(analyser.current);
+      getAudioFeatures(analyser.current).reset();
     }
-    
+    setSource('file');
+  }, []);
+
+  const handleStartAudio = useCallback(async () => {
+    await ensureAudioGraph();
     setView('data');
     handleSelectTrack(currentTrack.id, true);
-  }, [currentTrack.id, volume]); // Add volume to dependency array
+  }, [currentTrack.id, ensureAudioGraph]);
+
+  const handleStartLive = useCallback(async (deviceId?: string) => {
+    await ensureAudioGraph();
+    if (!audioContext.current || !analyser.current) return;
+    let input: LiveInput;
+    try {
+      input = await openLiveInput(audioContext.current, deviceId);
+    } catch (e) {
+      setLiveError(describeLiveInputError(e));
+      console.error("Error opening live input:", e);
+      return;
+    }
+    setLiveError(null);
+    audioEl.current?.pause();
+    // Switching devices replaces the running input; coming from files detaches the <audio> source.
+    liveInput.current?.stop();
+    sourceNode.current?.disconnect();
+    input.node.connect(analyser.current);
+    getAudioFeatures(analyser.current).reset();
+    liveInput.current = input;
+    setResumePending(false);
+    setInputDeviceId(input.deviceId);
+    setSource('live');
+    setView(v => v === 'gate' ? 'data' : v);
+    listInputDevices().then(setInputDevices).catch(() => {});
+  }, [ensureAudioGraph]);
+
+  const handleToggleMonitor = useCallback(() => {
+    setMonitor(m => !m);
+  }, []);
 
   const handleSelectTrack = useCallback((id: string, playOnSelect = false) => {
-    const track = TRACKS.find(t => t.id === id) || TRACKS[0];
+    stopLiveInput();
+    if (analyser.current) getAudioFeatures(analyser.current).reset();
+    const track = tracksRef.current.find(t => t.id === id) || tracksRef.current[0];
     setCurrentTrack(track);
     if (audioEl.current) {
-      const toRaw = (name: string) => RAW_BASE + encodeURIComponent(name);
-      audioEl.current.src = toRaw(track.file);
+      audioEl.current.src = trackUrl(track);
       if (playOnSelect) {
         audioEl.current.play().catch(e => console.error("Error playing audio:", e));
       }
     }
-  }, []);
+  }, [stopLiveInput]);
 
   const handlePlay = useCallback(() => {
+    stopLiveInput();
     audioEl.current?.play().catch(e => console.error("Error playing audio:", e));
-  }, []);
+  }, [stopLiveInput]);
   
+  // Lands on the linked view, track and position. Returns false while the browser still
+  // wants a user gesture before audio can play.
+  const handleResume = useCallback(async (): Promise<boolean> => {
+    const link = deepLink.current;
+    await ensureAudioGraph();
+    const audio = audioEl.current;
+    if (!audio || audioContext.current?.state !== 'running') return false;
+    handleSelectTrack(currentTrack.id);
+    if (link.time !== null) audio.currentTime = link.time;
+    try {
+      await audio.play();
+    } catch (e) {
+      if ((e as DOMException).name === 'NotAllowedError') return false;
+      console.error("Error playing audio:", e);
+    }
+    setResumePending(false);
+    setView(link.view ?? 'data');
+    return true;
+  }, [currentTrack.id, ensureAudioGraph, handleSelectTrack]);
+
+  // A link first tries to resume on its own; if autoplay is blocked the gate takes one click.
+  const autoResumeTried = useRef(false);
+  useEffect(() => {
+    if (!catalogReady || !resumePending || autoResumeTried.current) return;
+    autoResumeTried.current = true;
+    handleResume();
+  }, [catalogReady, resumePending, handleResume]);
+
   const handlePause = useCallback(() => {
     audioEl.current?.pause();
   }, []);
 
+  const handleNext = useCallback((auto = false) => {
+    const id = nextTrackId(order, currentTrack.id, repeat, auto);
+    if (id === null) {
+      setIsPlaying(false);
+      return;
+    }
+    if (id === currentTrack.id && audioEl.current) {
+      audioEl.current.currentTime = 0;
+      handlePlay();
+      return;
+    }
+    handleSelectTrack(id, true);
+  }, [order, currentTrack.id, repeat, handleSelectTrack, handlePlay]);
+
+  const handlePrev = useCallback(() => {
+    // Like most players: a few seconds in, "previous" restarts the current track.
+    if (audioEl.current && audioEl.current.currentTime > 3) {
+      audioEl.current.currentTime = 0;
+      return;
+    }
+    const id = prevTrackId(order, currentTrack.id);
+    if (id !== null) handleSelectTrack(id, true);
+  }, [order, currentTrack.id, handleSelectTrack]);
+
+  const handleToggleShuffle = useCallback(() => {
+    const next = !shuffle;
+    setShuffle(next);
+    setOrder(buildOrder(tracksRef.current.map(t => t.id), currentTrack.id, next));
+  }, [shuffle, currentTrack.id]);
+
+  const handleCycleRepeat = useCallback(() => {
+    setRepeat(r => REPEAT_CYCLE[r]);
+  }, []);
+
+  const handleSeek = useCallback((seconds: number) => {
+    if (audioEl.current) audioEl.current.currentTime = seconds;
+  }, []);
+
   const handleVolumeChange = useCallback((newVolume: number) => {
     setVolume(newVolume);
   }, []);
+
+  const handleTogglePlay = useCallback(() => {
+    if (source === 'live' || !audioEl.current) return;
+    if (audioEl.current.paused) handlePlay();
+    else handlePause();
+  }, [source, handlePlay, handlePause]);
+
+  const handleSeekBy = useCallback((seconds: number) => {
+    const audio = audioEl.current;
+    if (!audio || !isFinite(audio.duration)) return;
+    audio.currentTime = Math.max(0, Math.min(audio.duration, audio.currentTime + seconds));
+  }, []);
+
+  const handleVolumeBy = useCallback((delta: number) => {
+    setVolume(v => Math.max(0, Math.min(1, Math.round((v + delta) * 100) / 100)));
+  }, []);
+
+  // Unmuting returns to the level from before.
+  const unmutedVolume = useRef(volume);
+  const handleToggleMute = useCallback(() => {
+    setVolume(v => {
+      if (v > 0) { unmutedVolume.current = v; return 0; }
+      return unmutedVolume.current || 0.75;
+    });
+  }, []);
+
+  const handleAddFiles = useCallback((files: FileList | File[]) => {
+    const list = Array.from(files);
+    const lyricsFiles = new Map(list.filter(isLyricsFile).map(f => [lyricsKey(f), f]));
+    const added = list.filter(isSupportedAudioFile).map(f => createLocalTrack(f, lyricsFiles.get(lyricsKey(f))));
+    if (!added.length) return;
+    // Re-adding the same file reuses the existing session track.
+    const known = new Set(tracksRef.current.map(t => t.id));
+    const fresh = added.filter(t => !known.has(t.id));
+    added.filter(t => known.has(t.id)).forEach(releaseLocalTrack);
+    tracksRef.current = [...tracksRef.current, ...fresh];
+    setSessionTracks(prev => [...prev, ...fresh]);
+
+    // Before the gate there is no audio graph yet; the track starts once audio is unlocked.
+    if (audioContext.current) {
+      handleSelectTrack(added[0].id, true);
+    } else {
+      setCurrentTrack(tracksRef.current.find(t => t.id === added[0].id) || tracksRef.current[0]);
+    }
+  }, [handleSelectTrack]);
+
+  const handleDragOver = useCallback((e: React.DragEvent) => {
+    if (!e.dataTransfer.types.includes('Files')) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+    setIsDragging(true);
+  }, []);
+
+  const handleDragLeave = useCallback((e: React.DragEvent) => {
+    if (e.currentTarget.contains(e.relatedTarget as Node | null)) return;
+    setIsDragging(false);
+  }, []);
+
+  const handleDrop = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    handleAddFiles(e.dataTransfer.files);
+  }, [handleAddFiles]);
+
+  // Revoke object URLs of session tracks when the app goes away.
+  useEffect(() => () => tracksRef.current.forEach(releaseLocalTrack), []);
+
+  // Keep the device list current while live, e.g. when an interface is plugged in.
+  useEffect(() => {
+    if (source !== 'live' || !navigator.mediaDevices) return;
+    const onDeviceChange = () => { listInputDevices().then(setInputDevices).catch(() => {}); };
+    navigator.mediaDevices.addEventListener('devicechange', onDeviceChange);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', onDeviceChange);
+  }, [source]);
+
+  useEffect(() => () => liveInput.current?.stop(), []);
+
+  const updateTrack = useCallback((id: string, patch: Partial<Track>) => {
+    const apply = (list: Track[]) => list.map(t => (t.id === id ? { ...t, ...patch } : t));
+    setCatalog(apply);
+    setSessionTracks(apply);
+    setCurrentTrack(prev => (prev.id === id ? { ...prev, ...patch } : prev));
+  }, []);
+
+  // Effect to pre-analyse the playing track, hand its timeline to the scenes and give
+  // unstyled tracks a mood, palette and scene from it.
+  const audioReady = view !== 'gate';
+  const currentUrl = trackUrl(currentTrack);
+  useEffect(() => {
+    if (!audioReady || !analyser.current) return;
+    const features = getAudioFeatures(analyser.current);
+    features.setTimeline(null);
+    setTimeline(null);
+    if (source !== 'file') return;
+
+    let cancelled = false;
+    const trackId = currentTrack.id;
+    loadTrackTimeline(trackId, currentUrl)
+      .then(tl => {
+        if (cancelled) return;
+        features.setTimeline(tl, () => audioEl.current?.currentTime ?? 0);
+        setTimeline(tl);
+        const track = tracksRef.current.find(t => t.id === trackId);
+        const patch = track && classificationPatch(track, classifyMood(tl));
+        if (patch) updateTrack(trackId, patch);
+      })
+      .catch(e => console.warn("Track analysis failed:", e));
+    return () => { cancelled = true; };
+  }, [audioReady, currentTrack.id, currentUrl, source, updateTrack]);
+
+  // Effect to fetch the playing track's lyrics, if it has any.
+  const lyricsUrl = source === 'file' ? currentTrack.lyrics : undefined;
+  useEffect(() => {
+    setLyrics(null);
+    if (!lyricsUrl) return;
+    let cancelled = false;
+    loadLyrics(lyricsUrl)
+      .then(l => { if (!cancelled) setLyrics(l.lines.length ? l : null); })
+      .catch(e => console.warn("Lyrics could not be loaded:", e));
+    return () => { cancelled = true; };
+  }, [lyricsUrl]);
+
+  // Effect to load the playing track's cues: its edited ones, otherwise its cue file.
+  const cueFile = currentTrack.cues;
+  useEffect(() => {
+    setCues(null);
+    if (source !== 'file') return;
+    let cancelled = false;
+    loadCueSheet(currentTrack.id, cueFile)
+      .then(c => { if (!cancelled) setCues(c); })
+      .catch(e => console.warn("Cues could not be loaded:", e));
+    return () => { cancelled = true; };
+  }, [currentTrack.id, cueFile, source, cueReload]);
+
+  // Effect to hand the cues to the scenes, timed against the <audio> element.
+  useEffect(() => {
+    if (!audioReady || !analyser.current) return;
+    getAudioFeatures(analyser.current).setCues(cues, () => audioEl.current?.currentTime ?? 0);
+  }, [audioReady, cues]);
+
+  // Edits are saved per track as they're made; null drops them for the track's cue file.
+  const handleCuesChange = useCallback((next: SceneCue[] | null) => {
+    saveCues(currentTrack.id, next);
+    if (next) setCues(next);
+    else setCueReload(n => n + 1);
+  }, [currentTrack.id]);
   
+  // Effect to mirror the view and track into the URL. Entering a view adds a history entry;
+  // changing track within it replaces the current one.
+  useEffect(() => {
+    if (view === 'gate') return;
+    const url = readUrlState();
+    const trackId = source === 'live' ? null : currentTrack.id;
+    if (url.view === view && url.trackId === trackId) return;
+    writeUrlState({ view, trackId, time: url.trackId === trackId ? url.time : null }, url.view !== view ? 'push' : 'replace');
+  }, [view, currentTrack.id, source]);
+
+  const handleEnterScene = useCallback((origin?: LensOrigin, focus?: FrequencyBand | null) => {
+    lensOrigin.current = origin ?? null;
+    setSceneFocus(focus ?? null);
+    setTransitioning(true);
+    setView('scene');
+  }, []);
+
+  const handleLeaveScene = useCallback(() => {
+    setSceneFocus(null);
+    setTransitioning(true);
+    setView('data');
+  }, []);
+
+  // Effect to follow the browser's back and forward buttons.
+  useEffect(() => {
+    const onPopState = () => {
+      const url = readUrlState();
+      const linked = url.trackId ? tracksRef.current.find(t => t.id === url.trackId) : undefined;
+      if (!audioContext.current) {
+        deepLink.current = url;
+        if (linked) setCurrentTrack(linked);
+        setResumePending(url.view !== null);
+        return;
+      }
+      if (!url.view) {
+        audioEl.current?.pause();
+        setTransitioning(false);
+        setView('gate');
+        return;
+      }
+      if (linked && linked.id !== currentTrack.id && source === 'file') {
+        handleSelectTrack(linked.id, !!audioEl.current && !audioEl.current.paused);
+      }
+      // Between the data view and the scene, go the way the buttons do, without a lens to open from.
+      if (url.view === 'scene' && view === 'data') handleEnterScene();
+      else if (url.view === 'data' && view === 'scene') handleLeaveScene();
+      else setView(url.view);
+    };
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  }, [view, currentTrack.id, source, handleSelectTrack, handleEnterScene, handleLeaveScene]);
+
+  const handleTransitionEnd = useCallback(() => setTransitioning(false), []);
+
+  const handleNextRef = useRef(handleNext);
+  handleNextRef.current = handleNext;
+
+  const playbackControls = {
+    onTogglePlay: handleTogglePlay,
+    onPlay: handlePlay,
+    onPause: handlePause,
+    onNext: () => handleNext(),
+    onPrev: handlePrev,
+    onSeekBy: handleSeekBy,
+    onSeekTo: handleSeek,
+  };
+  useKeyboardShortcuts({
+    ...playbackControls,
+    onVolumeBy: handleVolumeBy,
+    onToggleMute: handleToggleMute,
+    onEnterScene: () => { if (view === 'data') handleEnterScene(); },
+    onLeaveScene: () => { if (view === 'scene') handleLeaveScene(); },
+    onToggleFullscreen: toggleFullscreen,
+  }, view !== 'gate');
+  useMediaSession(
+    source === 'live' ? LIVE_TRACK : currentTrack,
+    isPlaying,
+    view !== 'gate' && source === 'file' ? audioEl.current : null,
+    playbackControls,
+  );
+
   useEffect(() => {
     const audio = audioEl.current;
     if (!audio) return;
 
     const onPlay = () => setIsPlaying(true);
     const onPause = () => setIsPlaying(false);
+    const onEnded = () => handleNextRef.current(true);
+    // A jump in playback would otherwise read to the scenes as a burst of beats.
+    const onSeeking = () => { if (analyser.current) getAudioFeatures(analyser.current).reset(); };
+    // The URL position is refreshed every few seconds, so a reload or copied link is never far off.
+    let urlTime = 0;
+    const syncUrlTime = () => { urlTime = audio.currentTime; replaceUrlTime(urlTime); };
+    const onTimeUpdate = () => { if (Math.abs(audio.currentTime - urlTime) >= 5) syncUrlTime(); };
 
     audio.addEventListener('play', onPlay);
     audio.addEventListener('pause', onPause);
-    audio.addEventListener('ended', onPause);
+    audio.addEventListener('ended', onEnded);
+    audio.addEventListener('seeking', onSeeking);
+    audio.addEventListener('timeupdate', onTimeUpdate);
+    audio.addEventListener('seeked', syncUrlTime);
+    audio.addEventListener('pause', syncUrlTime);
 
     return () => {
       audio.removeEventListener('play', onPlay);
       audio.removeEventListener('pause', onPause);
-      audio.removeEventListener('ended', onPause);
+      audio.removeEventListener('ended', onEnded);
+      audio.removeEventListener('seeking', onSeeking);
+      audio.removeEventListener('timeupdate', onTimeUpdate);
+      audio.removeEventListener('seeked', syncUrlTime);
+      audio.removeEventListener('pause', syncUrlTime);
     };
   }, []);
 
+  const liveSupported = isLiveInputSupported();
+  const displayTrack = source === 'live' ? LIVE_TRACK : currentTrack;
+  const link = deepLink.current;
+  const resumeLabel = resumePending
+    ? [trackLabel(currentTrack), link.view === 'scene' ? 'scene' : 'data view', link.time !== null && `from ${formatTime(link.time)}`]
+        .filter(Boolean).join(' • ')
+    : undefined;
+  const gate = (
+    <Gate
+      onStart={resumePending ? () => { handleResume(); } : handleStartAudio}
+      onStartLive={liveSupported ? () => handleStartLive() : undefined}
+      resumeLabel={resumeLabel}
+    />
+  );
+
+  const sceneTransition = !transitioning ? null : view === 'scene' ? 'enter' : view === 'data' ? 'leave' : null;
+  const showData = view === 'data' || sceneTransition !== null;
+  const showScene = view === 'scene' || sceneTransition !== null;
+
   const renderView = () => {
-    switch(view) {
-      case 'gate':
-        return <Gate onStart={handleStartAudio} />;
-      case 'data':
-        return (
+    if (view === 'gate') return gate;
+    return (
+      <>
+        {showData && (
           <DataView 
             analyser={analyser.current} 
-            currentTrack={currentTrack} 
-            onEnterScene={() => setView('scene')}
-            is3DMode={currentTrack.id === 'too-sweet' || currentTrack.id === 'journey' || currentTrack.id === 'believer'}
+            currentTrack={displayTrack} 
+            onEnterScene={handleEnterScene}
           />
-        );
-      case 'scene':
-        return (
+        )}
+        {showScene && (
           <SceneView 
             analyser={analyser.current} 
-            currentTrack={currentTrack} 
-            onBack={() => setView('data')} 
+            currentTrack={displayTrack} 
+            onBack={handleLeaveScene} 
+            transition={sceneTransition}
+            origin={lensOrigin.current}
+            onTransitionEnd={handleTransitionEnd}
+            focus={sceneFocus}
+            onClearFocus={() => setSceneFocus(null)}
+            lyrics={lyrics}
+            audio={audioEl.current}
+            cues={cues}
+            onCuesChange={source === 'file' ? handleCuesChange : undefined}
           />
-        );
-      default:
-        return <Gate onStart={handleStartAudio} />;
-    }
+        )}
+      </>
+    );
   };
 
   return (
-    <div className="h-screen w-screen flex flex-col font-sans overflow-hidden">
-      {view !== 'scene' && <Header />}
+    <div
+      className="h-screen w-screen flex flex-col font-sans overflow-hidden"
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {(view !== 'scene' || showData) && <Header />}
       <main className="flex-1 relative bg-gradient-to-b from-[#0a0a0a] to-[#080808] via-[#0b0b0b]">
         {renderView()}
       </main>
-      {view === 'data' && (
+      {showData && (
         <Player
-          tracks={TRACKS}
+          tracks={tracks}
           currentTrack={currentTrack}
           isPlaying={isPlaying}
           onSelectTrack={handleSelectTrack}
           onPlay={handlePlay}
           onPause={handlePause}
+          onNext={() => handleNext()}
+          onPrev={handlePrev}
+          shuffle={shuffle}
+          repeat={repeat}
+          onToggleShuffle={handleToggleShuffle}
+          onCycleRepeat={handleCycleRepeat}
+          audio={audioEl.current}
+          waveform={timeline?.waveform ?? null}
+          onSeek={handleSeek}
           volume={volume}
           onVolumeChange={handleVolumeChange}
+          onAddFiles={handleAddFiles}
+          isLive={source === 'live'}
+          liveSupported={liveSupported}
+          inputDevices={inputDevices}
+          inputDeviceId={inputDeviceId}
+          monitor={monitor}
+          onStartLive={handleStartLive}
+          onStopLive={stopLiveInput}
+          onToggleMonitor={handleToggleMonitor}
         />
+      )}
+      {isDragging && (
+        <div className="fixed inset-0 z-30 grid place-items-center bg-[rgba(5,5,5,0.75)] backdrop-blur-sm border-2 border-dashed border-[#3aa6ff] pointer-events-none">
+          <div className="text-sm text-[#eaf6ff]">Drop MP3, WAV, OGG or FLAC files to play them, with an .lrc of the same name for lyrics</div>
+        </div>
+      )}
+      {webglStatus !== 'ok' && <WebGLNotice status={webglStatus} />}
+      {((manifestError && view === 'gate') || (liveError && view !== 'scene')) && (
+        <div className={`fixed right-4 ${view === 'data' ? 'bottom-24' : 'bottom-4'} z-30 max-w-md flex flex-col items-end gap-2`}>
+          {manifestError && view === 'gate' && (
+            <button
+              onClick={() => setManifestError(null)}
+              title="Dismiss"
+              className="whitespace-pre-wrap text-left text-xs text-[#ffb4a8] bg-[rgba(15,15,15,0.85)] backdrop-blur-md px-3 py-2.5 rounded-xl border border-[#5a2a24] cursor-pointer"
+            >
+              {manifestError}
+              {'\n'}Using the built-in track list instead.
+            </button>
+          )}
+          {liveError && view !== 'scene' && (
+            <button onClick={() => setLiveError(null)} title="Dismiss" className="text-left text-xs text-[#ffb4a8] bg-[rgba(15,15,15,0.85)] backdrop-blur-md px-3 py-2.5 rounded-xl border border-[#5a2a24] cursor-pointer">
+              {liveError}
+            </button>
+          )}
+        </div>
       )}
        <audio ref={audioEl} crossOrigin="anonymous" />
     </div>
@@ -0,0 +1,291 @@
+// Per-frame audio features shared by every visual reading the same analyser.
+// Bands are defined in Hz so they keep their meaning across sample rates and fftSizes.
+import { indexAtOrBefore, energyAt, peakEnergyBetween } from './TrackAnalysis';
+import type { TrackTimeline } from './TrackAnalysis';
+import { CuePlayer } from './SceneCues';
+import type { CueFrame, SceneCue } from './SceneCues';
+
+// The part of AnalyserNode the features read; offline renders substitute a decoded-audio source.
+export interface SpectrumSource {
+  readonly fftSize: number;
+  readonly frequencyBinCount: number;
+  readonly context: { readonly sampleRate: number };
+  getByteFrequencyData(array: Uint8Array): void;
+  getFloatTimeDomainData(array: Float32Array): void;
+}
+
+export interface FrequencyBand {
+  low: number;
+  high: number;
+}
+
+export const BANDS = {
+  bass: { low: 20, high: 250 },
+  mid: { low: 250, high: 2000 },
+  treble: { low: 2000, high: 8000 },
+} satisfies Record<string, FrequencyBand>;
+
+export interface AudioFeatureFrame {
+  time: number;          // ms, clock the frame was sampled at
+  spectrum: Uint8Array;  // raw byte magnitudes, one per analyser bin
+  bass: number;          // 0..1 mean level per band
+  mid: number;
+  treble: number;
+  rms: number;           // 0..1 from the time-domain signal
+  centroid: number;      // Hz
+  flux: number;          // 0..1 positive spectral flux across the spectrum
+  bassFlux: number;      // 0..1 positive spectral flux inside the bass band
+  onset: boolean;
+  bassOnset: boolean;
+  discontinuity: boolean;  // first frame after reset(): scenes should drop their own history
+  timeline: TimelineFrame | null;
+  cues: CueFrame | null;   // scripted events at the playback position
+}
+
+// Pre-analysed view of the playing track at the current playback position.
+export interface TimelineFrame {
+  position: number;        // s
+  energy: number;          // 0..1 envelope at the position
+  upcomingEnergy: number;  // 0..1 peak envelope over the next LOOKAHEAD_S
+  tempo: number;           // BPM
+  beat: boolean;           // a beat-grid position was crossed since the last frame
+  beatPhase: number;       // 0..1 through the current beat
+  beatDistance: number;    // s to the nearest grid beat
+  onset: boolean;          // a pre-analysed onset was crossed since the last frame
+}
+
+// Flux history of ~1s at 60fps for the adaptive onset threshold.
+const HISTORY_SIZE = 60;
+const ONSET_K = 2.0;
+const ONSET_MIN_FLUX = 0.01;
+const ONSET_REFRACTORY_MS = 100;
+// rAF callbacks in the same frame land within a few ms of each other.
+const SAME_FRAME_MS = 4;
+const LOOKAHEAD_S = 2;
+// Larger jumps in playback position are seeks, not playback, and cross no beats.
+const MAX_STEP_S = 0.5;
+// While a band is in focus, the named band holding it follows the focus level and the others fall back.
+const FOCUS_GAIN = 1.5;
+const FOCUS_DAMP = 0.35;
+
+class OnsetTracker {
+  private history: number[] = [];
+  private lastOnset = -Infinity;
+
+  public push(flux: number, now: number): boolean {
+    const n = this.history.length;
+    let hit = false;
+    if (n >= 8) {
+      const mean = this.history.reduce((s, v) => s + v, 0) / n;
+      const std = Math.sqrt(this.history.reduce((s, v) => s + (v - mean) ** 2, 0) / n);
+      hit = flux > mean + ONSET_K * std && flux > ONSET_MIN_FLUX && now - this.lastOnset > ONSET_REFRACTORY_MS;
+    }
+    if (hit) this.lastOnset = now;
+    this.history.push(flux);
+    if (this.history.length > HISTORY_SIZE) this.history.shift();
+    return hit;
+  }
+
+  public reset() {
+    this.history = [];
+    this.lastOnset = -Infinity;
+  }
+}
+
+export class AudioFeatures {
+  private analyser: SpectrumSource;
+  private spectrum: Uint8Array;
+  private prevSpectrum: Uint8Array;
+  private waveform: Float32Array;
+  private onsets = new OnsetTracker();
+  private bassOnsets = new OnsetTracker();
+  private primed = false;
+  private timeline: TrackTimeline | null = null;
+  private clock: (() => number) | null = null;
+  private lastPosition = -1;
+  private focus: FrequencyBand | null = null;
+  private cues: CuePlayer | null = null;
+  private cueClock: (() => number) | null = null;
+  // Reused every frame; frame.timeline points here while a timeline is set.
+  private readonly timelineFrame: TimelineFrame = {
+    position: 0, energy: 0, upcomingEnergy: 0, tempo: 0,
+    beat: false, beatPhase: 0, beatDistance: 0, onset: false,
+  };
+
+  public readonly frame: AudioFeatureFrame;
+
+  constructor(analyser: SpectrumSource) {
+    this.analyser = analyser;
+    this.spectrum = new Uint8Array(analyser.frequencyBinCount);
+    this.prevSpectrum = new Uint8Array(analyser.frequencyBinCount);
+    this.waveform = new Float32Array(analyser.fftSize);
+    this.frame = {
+      time: 0, spectrum: this.spectrum,
+      bass: 0, mid: 0, treble: 0,
+      rms: 0, centroid: 0, flux: 0, bassFlux: 0,
+      onset: false, bassOnset: false,
+      discontinuity: false,
+      timeline: null,
+      cues: null,
+    };
+  }
+
+  // `clock` reports the playback position in seconds of the audio the timeline describes.
+  public setTimeline(timeline: TrackTimeline | null, clock: (() => number) | null = null) {
+    this.timeline = timeline;
+    this.clock = timeline ? clock : null;
+    this.lastPosition = -1;
+    this.frame.timeline = null;
+  }
+
+  // `clock` reports the playback position in seconds the cues are timed against.
+  public setCues(cues: SceneCue[] | null, clock: (() => number) | null = null) {
+    this.cues = cues?.length && clock ? new CuePlayer(cues) : null;
+    this.cueClock = this.cues ? clock : null;
+    this.frame.cues = null;
+  }
+
+  // Narrows what every reader of this analyser reacts to; null restores the full spectrum.
+  public setFocus(band: FrequencyBand | null) {
+    this.focus = band;
+  }
+
+  public get focusBand(): FrequencyBand | null {
+    return this.focus;
+  }
+
+  public get binCount(): number {
+    return this.spectrum.length;
+  }
+
+  public get nyquist(): number {
+    return this.analyser.context.sampleRate / 2;
+  }
+
+  public binForHz(hz: number): number {
+    const bin = Math.round((hz / this.nyquist) * this.spectrum.length);
+    return Math.max(0, Math.min(this.spectrum.length - 1, bin));
+  }
+
+  public hzForBin(bin: number): number {
+    return (bin / this.spectrum.length) * this.nyquist;
+  }
+
+  // Mean level (0..1) of the current spectrum between two frequencies.
+  public band(lowHz: number, highHz: number): number {
+    const s = this.binForHz(lowHz), e = this.binForHz(highHz);
+    let sum = 0;
+    for (let i = s; i <= e; i++) sum += this.spectrum[i];
+    return sum / ((e - s + 1) * 255);
+  }
+
+  public sample(now = performance.now()): AudioFeatureFrame {
+    if (this.primed && Math.abs(now - this.frame.time) < SAME_FRAME_MS) return this.frame;
+
+    this.frame.discontinuity = !this.primed;
+    this.prevSpectrum.set(this.spectrum);
+    this.analyser.getByteFrequencyData(this.spectrum);
+    // The first frame after a reset has nothing to diff against.
+    if (!this.primed) this.prevSpectrum.set(this.spectrum);
+    this.primed = true;
+    this.analyser.getFloatTimeDomainData(this.waveform);
+
+    const f = this.frame;
+    f.time = now;
+    f.bass = this.band(BANDS.bass.low, BANDS.bass.high);
+    f.mid = this.band(BANDS.mid.low, BANDS.mid.high);
+    f.treble = this.band(BANDS.treble.low, BANDS.treble.high);
+    if (this.focus) this.applyFocus(f, this.focus);
+    f.cues = this.cues && this.cueClock ? this.cues.sample(this.cueClock()) : null;
+    if (f.cues) this.applyIntensity(f, f.cues.intensity);
+
+    let sq = 0;
+    for (let i = 0; i < this.waveform.length; i++) sq += this.waveform[i] * this.waveform[i];
+    f.rms = Math.sqrt(sq / this.waveform.length);
+
+    let weighted = 0, total = 0, flux = 0;
+    for (let i = 0; i < this.spectrum.length; i++) {
+      const v = this.spectrum[i];
+      weighted += this.hzForBin(i) * v;
+      total += v;
+      const d = v - this.prevSpectrum[i];
+      if (d > 0) flux += d;
+    }
+    f.centroid = total ? weighted / total : 0;
+    f.flux = flux / (this.spectrum.length * 255);
+
+    const bs = this.binForHz(BANDS.bass.low), be = this.binForHz(BANDS.bass.high);
+    let bassFlux = 0;
+    for (let i = bs; i <= be; i++) {
+      const d = this.spectrum[i] - this.prevSpectrum[i];
+      if (d > 0) bassFlux += d;
+    }
+    f.bassFlux = bassFlux / ((be - bs + 1) * 255);
+
+    f.onset = this.onsets.push(f.flux, now);
+    f.bassOnset = this.bassOnsets.push(f.bassFlux, now);
+    f.timeline = this.sampleTimeline();
+    return f;
+  }
+
+  private applyFocus(f: AudioFeatureFrame, focus: FrequencyBand) {
+    const level = Math.min(1, this.band(focus.low, focus.high) * FOCUS_GAIN);
+    const center = focus.low > 0 ? Math.sqrt(focus.low * focus.high) : focus.high / 2;
+    const home = center < BANDS.bass.high ? 'bass' : center < BANDS.mid.high ? 'mid' : 'treble';
+    for (const key of ['bass', 'mid', 'treble'] as const) {
+      f[key] = key === home ? level : f[key] * FOCUS_DAMP;
+    }
+  }
+
+  private applyIntensity(f: AudioFeatureFrame, intensity: number) {
+    if (intensity === 1) return;
+    for (const key of ['bass', 'mid', 'treble'] as const) f[key] = Math.min(1, f[key] * intensity);
+  }
+
+  private sampleTimeline(): TimelineFrame | null {
+    const tl = this.timeline;
+    if (!tl || !this.clock) return null;
+    const pos = this.clock();
+    const prev = this.lastPosition;
+    const step = pos - prev;
+    const continuous = prev >= 0 && step >= 0 && step < MAX_STEP_S;
+    this.lastPosition = pos;
+
+    const bi = indexAtOrBefore(tl.beats, pos);
+    const beatLen = 60 / tl.tempo;
+    const lastBeat = bi >= 0 ? tl.beats[bi] : pos - beatLen;
+    const nextBeat = tl.beats[bi + 1] ?? lastBeat + beatLen;
+    const crossed = (list: number[]) => continuous && indexAtOrBefore(list, pos) > indexAtOrBefore(list, prev);
+
+    const t = this.timelineFrame;
+    t.position = pos;
+    t.energy = energyAt(tl, pos);
+    t.upcomingEnergy = peakEnergyBetween(tl, pos, pos + LOOKAHEAD_S);
+    t.tempo = tl.tempo;
+    t.beat = crossed(tl.beats);
+    t.beatPhase = Math.max(0, Math.min(1, (pos - lastBeat) / (nextBeat - lastBeat)));
+    t.beatDistance = Math.min(pos - lastBeat, nextBeat - pos);
+    t.onset = crossed(tl.onsets);
+    return t;
+  }
+
+  // Forget history so a discontinuity (seek, source switch) doesn't read as an onset.
+  public reset() {
+    this.onsets.reset();
+    this.bassOnsets.reset();
+    this.primed = false;
+    this.lastPosition = -1;
+    this.cues?.reset();
+  }
+}
+
+const shared = new WeakMap<SpectrumSource, AudioFeatures>();
+
+export const getAudioFeatures = (analyser: SpectrumSource): AudioFeatures => {
+  let features = shared.get(analyser);
+  if (!features) {
+    features = new AudioFeatures(analyser);
+    shared.set(analyser, features);
+  }
+  return features;
+};
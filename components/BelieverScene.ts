@@ -1,11 +1,15 @@
 import * as THREE from 'three';
-import type { Track } from '../types';
-
-const avg = (arr: Uint8Array, s: number, e: number): number => {
-  let sum = 0, n = 0;
-  for (let i = s; i <= e && i < arr.length; i++) { sum += arr[i]; n++; }
-  return n ? sum / n : 0;
-};
+import type { Track, Visualizer } from '../types';
+import { getAudioFeatures } from './AudioFeatures';
+import { realtimeDriver } from './FrameDriver';
+import { PaletteBlend } from './PaletteBlend';
+import { defaultParams, resolveParams } from './SceneParams';
+import { FlashGuard, LumaLimiter, limitsFlashes, motionScale } from './MotionSafety';
+import { renderDpr } from './QualityGovernor';
+import type { QualityTier } from './QualityGovernor';
+import type { SceneParam, SceneParamValues } from './SceneParams';
+import type { FrameDriver } from './FrameDriver';
+import type { AudioFeatures, SpectrumSource, AudioFeatureFrame } from './AudioFeatures';
 
 /* ---------------------------- FBM Noise Functions ---------------------------- */
 const fbmFunctions = `
@@ -27,7 +31,7 @@ const fbmFunctions = `
   float fbm(vec2 st) {
     float value = 0.0;
     float amplitude = 0.5;
-    for (int i = 0; i < 4; i++) {
+    for (int i = 0; i < OCTAVES; i++) {
       value += amplitude * noise(st);
       st *= 2.0;
       amplitude *= 0.5;
@@ -51,6 +55,10 @@ const bgFS = `
   uniform float u_bass;
   uniform float u_intense_beat;
   uniform vec2 u_resolution;
+  uniform vec3 u_color_bg;
+  uniform vec3 u_color_low;
+  uniform vec3 u_color_mid;
+  uniform vec3 u_color_high;
 
   ${fbmFunctions}
 
@@ -77,15 +85,10 @@ const bgFS = `
     );
     float n = fbm(st_flow + 2.0 * r_flow);
 
-    // Coloring
-    vec3 color_bg = vec3(0.02, 0.0, 0.0);
-    vec3 color_red = vec3(0.8, 0.05, 0.0);
-    vec3 color_orange = vec3(1.0, 0.4, 0.0);
-    vec3 color_yellow_core = vec3(1.0, 0.9, 0.4);
-
-    vec3 color = mix(color_bg, color_red, smoothstep(0.35, 0.45, n));
-    color = mix(color, color_orange, smoothstep(0.45, 0.55, n));
-    color = mix(color, color_yellow_core, smoothstep(0.55, 0.65, n));
+    // Coloring: palette ramps from its darkest shade to its brightest core
+    vec3 color = mix(u_color_bg, u_color_low, smoothstep(0.35, 0.45, n));
+    color = mix(color, u_color_mid, smoothstep(0.45, 0.55, n));
+    color = mix(color, u_color_high, smoothstep(0.55, 0.65, n));
 
     float grain = (random(v_uv * (u_time + 1.0)) - 0.5) * 0.1;
     color += grain;
@@ -99,21 +102,35 @@ const bgFS = `
   }
 `;
 
-function bandFlux(cur: Uint8Array, prev: Float32Array, s: number, e: number): number {
-  let flux = 0;
-  for (let i = s; i <= e && i < cur.length; i++) {
-    const d = cur[i] - prev[i];
-    if (d > 0) flux += d;
-  }
-  return flux / Math.max(1, e - s + 1);
+export const BELIEVER_SCENE_PARAMS: SceneParam[] = [
+  { key: 'intenseK', label: 'Beat threshold (σ)', min: 1, max: 8, step: 0.1, value: 4.5 },
+  { key: 'intenseKGrid', label: 'On-grid threshold (σ)', min: 0.5, max: 6, step: 0.1, value: 2.5 },
+  { key: 'gridWindow', label: 'Grid window (s)', min: 0.01, max: 0.2, step: 0.01, value: 0.07 },
+  { key: 'bassGate', label: 'Bass gate', min: 0, max: 1, step: 0.01, value: 0.4 },
+  { key: 'refractoryMs', label: 'Refractory (ms)', min: 50, max: 800, step: 10, value: 200 },
+  { key: 'decay', label: 'Pulse decay', min: 0.8, max: 0.99, step: 0.005, value: 0.92 },
+];
+
+interface BelieverQualityTier extends QualityTier {
+  octaves: number;  // FBM octaves per pixel
 }
 
-export class BelieverScene {
+export const BELIEVER_QUALITY_TIERS: BelieverQualityTier[] = [
+  { label: 'Low', maxDpr: 0.5, octaves: 2 },
+  { label: 'Medium', maxDpr: 0.75, octaves: 3 },
+  { label: 'High', maxDpr: 1, octaves: 4 },
+  { label: 'Full', maxDpr: 2, octaves: 4 },
+];
+
+export class BelieverScene implements Visualizer {
   private canvas: HTMLCanvasElement;
-  private analyser: AnalyserNode;
-  private dataArray: Uint8Array;
+  private features: AudioFeatures;
+  private driver: FrameDriver;
+  private palette: PaletteBlend;
 
   private renderer!: THREE.WebGLRenderer;
+  private sharedRenderer: THREE.WebGLRenderer | null;
+  private renderScale = 1;
   private scene!: THREE.Scene;
   private camera!: THREE.OrthographicCamera;
   
@@ -121,24 +138,31 @@ export class BelieverScene {
   private bgUniforms!: { [k: string]: THREE.IUniform };
   
   private animationFrameId = 0;
-  private prevSpectrum!: Float32Array;
+  private resumeOnRestore = false;
   private fluxHistory: number[] = [];
   private readonly fluxWindow = 43;
   private lastBeatTime = 0;
   private intenseBeatEnv = 0;
-
-  constructor(canvas: HTMLCanvasElement, analyser: AnalyserNode, track: Track) {
+  private lastTime = -1;
+  private flowTime = 0;
+  private flashGuard = new FlashGuard();
+  private beatLuma = new LumaLimiter();
+  private quality = BELIEVER_QUALITY_TIERS[BELIEVER_QUALITY_TIERS.length - 1];
+  private params: SceneParamValues = defaultParams(BELIEVER_SCENE_PARAMS);
+
+  constructor(canvas: HTMLCanvasElement, analyser: SpectrumSource, track: Track, driver: FrameDriver = realtimeDriver, renderer?: THREE.WebGLRenderer) {
     this.canvas = canvas;
-    this.analyser = analyser;
-    this.dataArray = new Uint8Array(this.analyser.frequencyBinCount);
-    this.prevSpectrum = new Float32Array(this.analyser.frequencyBinCount);
+    this.driver = driver;
+    this.sharedRenderer = renderer ?? null;
+    this.features = getAudioFeatures(analyser);
+    this.palette = new PaletteBlend(track.palette);
   }
 
   public init() {
     this.scene = new THREE.Scene();
     this.camera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1);
 
-    this.renderer = new THREE.WebGLRenderer({ canvas: this.canvas, antialias: true, alpha: false });
+    this.renderer = this.sharedRenderer ?? new THREE.WebGLRenderer({ canvas: this.canvas, antialias: true, alpha: false });
     this.renderer.outputColorSpace = THREE.SRGBColorSpace;
     this.renderer.setClearColor(0x000000, 1);
 
@@ -146,9 +170,26 @@ export class BelieverScene {
 
     this.handleResize();
     window.addEventListener('resize', this.handleResize);
+    this.canvas.addEventListener('webglcontextlost', this.handleContextLost);
+    this.canvas.addEventListener('webglcontextrestored', this.handleContextRestored);
     this.animate();
   }
 
+  // The old context took the compiled shader and the quad with it; build them again on restore.
+  private handleContextLost = (e: Event) => {
+    e.preventDefault();
+    this.resumeOnRestore = this.animationFrameId !== 0;
+    this.pause();
+  };
+
+  private handleContextRestored = () => {
+    this.disposeBackground();
+    this.scene.remove(this.bgMesh);
+    this.setupBackground();
+    this.handleResize();
+    if (this.resumeOnRestore) this.resume();
+  };
+
   private setupBackground() {
     const geo = new THREE.PlaneGeometry(2, 2);
     this.bgUniforms = {
@@ -156,27 +197,71 @@ export class BelieverScene {
       u_bass: { value: 0 },
       u_intense_beat: { value: 0 },
       u_resolution: { value: new THREE.Vector2(1, 1) },
+      u_color_bg: { value: new THREE.Vector3() },
+      u_color_low: { value: new THREE.Vector3() },
+      u_color_mid: { value: new THREE.Vector3() },
+      u_color_high: { value: new THREE.Vector3() },
     };
     const mat = new THREE.ShaderMaterial({
       uniforms: this.bgUniforms,
       vertexShader: bgVS,
       fragmentShader: bgFS,
+      defines: { OCTAVES: this.quality.octaves },
     });
     this.bgMesh = new THREE.Mesh(geo, mat);
     this.scene.add(this.bgMesh);
+    this.applyPalette();
+  }
+
+  // The fire ramp is the palette sorted by brightness; the backdrop is a near-black tint of the darkest color.
+  private applyPalette() {
+    const p = this.palette;
+    const last = p.length - 1;
+    const [r, g, b] = p.byBrightness(0);
+    this.bgUniforms.u_color_bg.value.set(r * 0.03, g * 0.03, b * 0.03);
+    this.bgUniforms.u_color_low.value.set(...p.byBrightness(last - 2));
+    this.bgUniforms.u_color_mid.value.set(...p.byBrightness(last - 1));
+    this.bgUniforms.u_color_high.value.set(...p.byBrightness(last));
+  }
+
+  public setPalette(palette: string[]) {
+    this.palette.setTarget(palette);
+  }
+
+  public setParams(values: SceneParamValues) {
+    this.params = resolveParams(BELIEVER_SCENE_PARAMS, values);
+  }
+
+  public setQuality(tier: number) {
+    this.quality = BELIEVER_QUALITY_TIERS[Math.max(0, Math.min(BELIEVER_QUALITY_TIERS.length - 1, tier))];
+    if (!this.bgMesh) return;
+    const mat = this.bgMesh.material as THREE.ShaderMaterial;
+    // GLSL ES 1.0 loops need a constant bound, so a new octave count means a recompile.
+    if (mat.defines.OCTAVES !== this.quality.octaves) {
+      mat.defines.OCTAVES = this.quality.octaves;
+      mat.needsUpdate = true;
+    }
+    this.handleResize();
+  }
+
+  public setRenderScale(scale: number) {
+    this.renderScale = scale;
+    if (this.bgMesh) this.handleResize();
   }
 
   private animate = () => {
-    this.animationFrameId = requestAnimationFrame(this.animate);
-    const now = performance.now() * 0.001;
-    this.analyser.getByteFrequencyData(this.dataArray);
-    this.update(now);
+    this.animationFrameId = this.driver.request(this.animate);
+    const frame = this.features.sample(this.driver.now());
+    this.update(frame.time * 0.001, frame);
     this.renderer.render(this.scene, this.camera);
   };
 
-  private update(time: number) {
-    const bass = avg(this.dataArray, 0, 32) / 255;
-    const flux = bandFlux(this.dataArray, this.prevSpectrum, 2, Math.min(64, this.dataArray.length - 1));
+  private update(time: number, frame: AudioFeatureFrame) {
+    const { bass, bassFlux: flux, timeline, discontinuity } = frame;
+    if (discontinuity) {
+      this.fluxHistory = [];
+      this.intenseBeatEnv = 0;
+    }
     this.fluxHistory.push(flux);
     if (this.fluxHistory.length > this.fluxWindow) this.fluxHistory.shift();
 
@@ -184,39 +269,76 @@ export class BelieverScene {
     const mean = this.fluxHistory.reduce((s, v) => s + v, 0) / n;
     const std = Math.sqrt(this.fluxHistory.reduce((s, v) => s + (v - mean) ** 2, 0) / n);
     
-    const intenseThreshold = mean + 4.5 * std;
-    const refractoryMs = 200;
+    // Near a pre-analysed beat a smaller flux spike is trusted; off the grid none is.
+    const p = this.params;
+    const intenseThreshold = mean + (timeline ? p.intenseKGrid : p.intenseK) * std;
+    const onGrid = !timeline || timeline.beatDistance < p.gridWindow;
+    const refractoryMs = p.refractoryMs;
     
     const nowMs = time * 1000;
-    if (nowMs - this.lastBeatTime > refractoryMs) {
-      if (flux > intenseThreshold && bass > 0.4) {
+    // A few frames of history are needed before the threshold means anything
+    if (this.fluxHistory.length >= 8 && nowMs - this.lastBeatTime > refractoryMs) {
+      if (flux > intenseThreshold && bass > p.bassGate && onGrid && this.flashGuard.allow(nowMs)) {
         this.intenseBeatEnv = 1.0;
         this.lastBeatTime = nowMs;
       }
     }
 
-    this.intenseBeatEnv *= 0.92; // Decay
-    
-    for (let i = 0; i < this.dataArray.length; i++) this.prevSpectrum[i] = this.dataArray[i];
+    // A cued pulse lands whatever the flux says, but still within the flash limit.
+    const cued = frame.cues?.pulse ?? 0;
+    if (cued > 0 && this.flashGuard.allow(nowMs)) {
+      this.intenseBeatEnv = Math.max(this.intenseBeatEnv, cued);
+      this.lastBeatTime = nowMs;
+    }
+
+    this.intenseBeatEnv *= p.decay;
+
+    const dt = this.lastTime >= 0 ? time - this.lastTime : 0;
+    this.lastTime = time;
+    this.palette.setOverride(frame.cues?.palette ?? null, frame.cues?.paletteFade);
+    this.palette.step(dt);
+    this.applyPalette();
+    this.flowTime += dt * motionScale();
+
+    // The pulse brightens the whole frame, so in safe modes it is weaker and eases in.
+    const pulse = this.beatLuma.step(this.intenseBeatEnv * (limitsFlashes() ? 0.4 : 1), dt);
     
-    this.bgUniforms.u_time.value = time;
+    this.bgUniforms.u_time.value = this.flowTime;
     this.bgUniforms.u_bass.value = bass;
-    this.bgUniforms.u_intense_beat.value = this.intenseBeatEnv;
+    this.bgUniforms.u_intense_beat.value = pulse;
+  }
+
+  public setSize(width: number, height: number, dpr = 1) {
+    this.renderer.setPixelRatio(dpr);
+    this.renderer.setSize(width, height, false);
+    this.bgUniforms.u_resolution.value.set(width, height);
   }
 
   private handleResize = () => {
     const { clientWidth, clientHeight } = this.canvas.parentElement || this.canvas;
-    const dpr = Math.min(window.devicePixelRatio || 1, 2);
-    this.renderer.setPixelRatio(dpr);
-    this.renderer.setSize(clientWidth, clientHeight, false);
-    this.bgUniforms.u_resolution.value.set(clientWidth, clientHeight);
+    this.setSize(clientWidth, clientHeight, renderDpr(this.quality) * this.renderScale);
   };
 
+  public pause() {
+    if (this.animationFrameId) this.driver.cancel(this.animationFrameId);
+    this.animationFrameId = 0;
+  }
+
+  public resume() {
+    if (!this.animationFrameId) this.animate();
+  }
+
   public destroy() {
-    if (this.animationFrameId) cancelAnimationFrame(this.animationFrameId);
+    this.pause();
     window.removeEventListener('resize', this.handleResize);
+    this.canvas.removeEventListener('webglcontextlost', this.handleContextLost);
+    this.canvas.removeEventListener('webglcontextrestored', this.handleContextRestored);
+    this.disposeBackground();
+    if (!this.sharedRenderer) this.renderer?.dispose();
+  }
+
+  private disposeBackground() {
     this.bgMesh?.geometry.dispose();
     (this.bgMesh?.material as THREE.Material)?.dispose();
-    this.renderer?.dispose();
   }
 }
\ No newline at end of file
@@ -0,0 +1,228 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { SceneEntry } from './SceneRegistry';
+import { CUE_KINDS, CUE_VALUE_RANGE, DEFAULT_FADE_S, cuesToBlob, describeCue, hasStoredCues, parseCues } from './SceneCues';
+import type { CameraMove, CueEvent, CueKind, SceneCue } from './SceneCues';
+import { formatTime } from './SeekBar';
+import { downloadBlob } from './SceneRecorder';
+
+interface CueEditorProps {
+  scene: SceneEntry;
+  trackId: string;
+  palette: string[];
+  cues: SceneCue[] | null;
+  audio: HTMLAudioElement | null;
+  // Null drops the edits and goes back to the track's cue file.
+  onChange: (cues: SceneCue[] | null) => void;
+}
+
+type ValueKind = keyof typeof CUE_VALUE_RANGE;
+
+const VALUE_STEP: Record<ValueKind, number> = { intensity: 0.1, ripples: 0.25, pulse: 0.05 };
+
+const pillClass = "text-xs text-zinc-300 border border-zinc-800 rounded-full px-3 py-1.5 bg-[rgba(10,10,10,0.7)] backdrop-blur-md cursor-pointer hover:border-zinc-600 hover:text-white transition-colors";
+const smallButton = "px-2 py-1 rounded border border-zinc-800 hover:border-zinc-600 hover:text-white transition-colors disabled:opacity-40 disabled:cursor-default";
+
+const formatCueTime = (s: number) => `${formatTime(s)}.${Math.floor((s % 1) * 10)}`;
+
+// Cue times are kept to a tenth of a second, which is as close as anyone clicks along.
+const roundTime = (s: number) => Math.round(s * 10) / 10;
+
+// Adds cues at the playback position while the track plays. Point cues land on a click;
+// a range is started and ended with the same button.
+const CueEditor: React.FC<CueEditorProps> = ({ scene, trackId, palette, cues, audio, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const [kind, setKind] = useState<CueKind>('intensity');
+  const [values, setValues] = useState<Record<ValueKind, number>>({ intensity: 1.5, ripples: 2, pulse: 1 });
+  const [camera, setCamera] = useState<CameraMove>({ orbit: 30, tilt: 0, zoom: 1.2 });
+  const [colors, setColors] = useState(palette);
+  const [fade, setFade] = useState(DEFAULT_FADE_S);
+  const [rangeStart, setRangeStart] = useState<number | null>(null);
+  const [now, setNow] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const kinds = CUE_KINDS.filter(k => !k.scene || k.scene === scene.id);
+  // A kind picked for another scene falls back when the scene changes.
+  const active = kinds.some(k => k.kind === kind) ? kind : kinds[0].kind;
+  const list = cues ?? [];
+
+  useEffect(() => {
+    setColors(palette);
+    setRangeStart(null);
+    setError(null);
+  }, [trackId]);
+
+  useEffect(() => {
+    if (!open || !audio) return;
+    const id = setInterval(() => setNow(audio.currentTime), 100);
+    return () => clearInterval(id);
+  }, [open, audio]);
+
+  const position = () => roundTime(audio?.currentTime ?? 0);
+
+  const event = (): CueEvent =>
+    active === 'palette' ? { kind: 'palette', palette: colors }
+    : active === 'camera' ? { kind: 'camera', camera }
+    : { kind: active, value: values[active] };
+
+  const add = (cue: SceneCue) => onChange([...list, cue].sort((a, b) => a.start - b.start));
+
+  const handleRange = () => {
+    const t = position();
+    if (rangeStart === null) {
+      setRangeStart(t);
+      return;
+    }
+    if (t > rangeStart) add({ ...event(), start: rangeStart, end: t, fade });
+    setRangeStart(null);
+  };
+
+  const handleImport = async (file: File) => {
+    setError(null);
+    try {
+      const imported = parseCues(JSON.parse(await file.text()));
+      if (!imported.length) throw new Error('The file has no usable cues.');
+      onChange(imported);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button onClick={() => setOpen(o => !o)} className={pillClass} title="Script palette, intensity and scene events against the track">
+        Cues{list.length ? ` ${list.length}` : ''} {open ? '▴' : '▾'}
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 max-h-[70vh] overflow-y-auto flex flex-col gap-3 p-3 rounded-xl border border-zinc-800 bg-[rgba(15,15,15,0.9)] backdrop-blur-md text-xs text-zinc-300">
+          <div className="flex items-center justify-between text-zinc-500">
+            <span>{scene.label}</span>
+            <span className="tabular-nums">{formatCueTime(now)}</span>
+          </div>
+
+          <select
+            value={active}
+            onChange={(e) => { setKind(e.target.value as CueKind); setRangeStart(null); }}
+            className="bg-[#121212] border border-zinc-800 rounded px-2 py-1"
+          >
+            {kinds.map(k => <option key={k.kind} value={k.kind}>{k.label}</option>)}
+          </select>
+
+          {(active === 'intensity' || active === 'ripples' || active === 'pulse') && (
+            <label className="flex flex-col gap-1">
+              <span className="flex justify-between">
+                {active === 'pulse' ? 'Strength' : 'Multiplier'}
+                <span className="tabular-nums text-zinc-500">{values[active]}</span>
+              </span>
+              <input
+                type="range" min={CUE_VALUE_RANGE[active][0]} max={CUE_VALUE_RANGE[active][1]} step={VALUE_STEP[active]}
+                value={values[active]}
+                onChange={(e) => setValues({ ...values, [active]: Number(e.target.value) })}
+                className="w-full accent-zinc-300"
+              />
+            </label>
+          )}
+          {active === 'camera' && ([
+            ['orbit', 'Orbit °', -180, 180, 5],
+            ['tilt', 'Tilt °', -80, 80, 5],
+            ['zoom', 'Zoom', 0.25, 4, 0.05],
+          ] as const).map(([key, label, min, max, step]) => (
+            <label key={key} className="flex flex-col gap-1">
+              <span className="flex justify-between">
+                {label}
+                <span className="tabular-nums text-zinc-500">{camera[key]}</span>
+              </span>
+              <input
+                type="range" min={min} max={max} step={step}
+                value={camera[key]}
+                onChange={(e) => setCamera({ ...camera, [key]: Number(e.target.value) })}
+                className="w-full accent-zinc-300"
+              />
+            </label>
+          ))}
+          {active === 'palette' && (
+            <div className="flex gap-2">
+              {colors.map((c, i) => (
+                <input
+                  key={i}
+                  type="color"
+                  value={c.length === 4 ? `#${c[1]}${c[1]}${c[2]}${c[2]}${c[3]}${c[3]}` : c}
+                  onChange={(e) => setColors(colors.map((old, j) => (j === i ? e.target.value : old)))}
+                  className="w-8 h-6 bg-transparent border border-zinc-800 rounded cursor-pointer"
+                />
+              ))}
+            </div>
+          )}
+          {active !== 'pulse' && (
+            <label className="flex items-center justify-between gap-2">
+              Fade (s)
+              <input
+                type="number" min={0} max={10} step={0.25}
+                value={fade}
+                onChange={(e) => setFade(Math.max(0, Number(e.target.value) || 0))}
+                className="w-16 bg-[#121212] border border-zinc-800 rounded px-2 py-1 tabular-nums"
+              />
+            </label>
+          )}
+
+          <div className="flex gap-2">
+            <button onClick={() => add({ ...event(), start: position(), end: null, fade })} disabled={!audio} className={smallButton}>
+              + At {formatCueTime(now)}
+            </button>
+            {active !== 'pulse' && (
+              <button onClick={handleRange} disabled={!audio} className={smallButton}>
+                {rangeStart === null ? 'Start range' : `End range ${formatCueTime(rangeStart)}–${formatCueTime(now)}`}
+              </button>
+            )}
+          </div>
+
+          <div className="border-t border-zinc-800 pt-3 flex flex-col gap-1">
+            {!list.length && <span className="text-zinc-500">No cues yet.</span>}
+            {list.map((cue, i) => (
+              <div key={i} className="flex items-center gap-2">
+                <button
+                  onClick={() => { if (audio) audio.currentTime = cue.start; }}
+                  title="Seek here"
+                  className="tabular-nums text-zinc-400 hover:text-white cursor-pointer"
+                >
+                  {formatCueTime(cue.start)}{cue.end !== null && `–${formatCueTime(cue.end)}`}
+                </button>
+                <span className="flex-1 truncate">{describeCue(cue)}</span>
+                <button onClick={() => onChange(list.filter((_, j) => j !== i))} title="Remove" className="text-zinc-500 hover:text-white cursor-pointer">✕</button>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex gap-2">
+            <button onClick={() => fileInputRef.current?.click()} className={smallButton}>Import…</button>
+            <button onClick={() => downloadBlob(cuesToBlob(trackId, list), `${trackId}-cues.json`)} disabled={!list.length} className={smallButton}>
+              Export
+            </button>
+            <button
+              onClick={() => onChange(null)}
+              disabled={!hasStoredCues(trackId)}
+              title="Drop the edits and use the track's cue file again"
+              className={smallButton}
+            >
+              Revert
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+          {error && <div className="text-[#ffb4a8]">{error}</div>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CueEditor;
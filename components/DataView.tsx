@@ -1,91 +1,156 @@
-import React, { useRef, useEffect, useCallback } from 'react';
-import type { Track, Particle } from '../types';
+import React, { useRef, useEffect, useCallback, useState } from 'react';
+import type { Track, Particle, Visualizer, LensOrigin } from '../types';
 import { renderEmotionScene, ensureParticles } from './EmotionRenderer';
-import { ThreeScene } from './ThreeScene';
-import { JourneyScene } from './JourneyScene';
-import { BelieverScene } from './BelieverScene';
+import { getSceneForTrack } from './SceneRegistry';
+import { getAudioFeatures } from './AudioFeatures';
+import type { FrequencyBand } from './AudioFeatures';
+import { attachScene, detachScene } from './SceneHost';
+import SpectrumControls from './SpectrumControls';
+import { bindLensPointers, createLensSet, stepLens } from './LensPointers';
+import type { Lens } from './LensPointers';
+import {
+  buildBands, aggregateBands, frequencyToFraction, formatHz, formatHzRange, bandCenter, byteToDb, nearestNote,
+  loadSpectrumDisplay, saveSpectrumDisplay, PeakHold, Spectrogram, HZ_TICKS, DB_TICK_STEP,
+} from './SpectrumDisplay';
+import type { FrequencyScale, SpectrumBand, SpectrumDisplaySettings } from './SpectrumDisplay';
 
 interface DataViewProps {
   analyser: AnalyserNode | null;
   currentTrack: Track;
-  onEnterScene: () => void;
-  is3DMode: boolean;
+  onEnterScene: (origin?: LensOrigin, focus?: FrequencyBand | null) => void;
 }
 
-const avg = (arr: Uint8Array, s: number, e: number): number => {
-  let sum = 0, n = 0;
-  for (let i = s; i <= e && i < arr.length; i++) { sum += arr[i]; n++; }
-  return n ? sum / n : 0;
+// Per-layout buffers, rebuilt when the scale or the analyser's resolution changes.
+interface BandState {
+  key: string;
+  bands: SpectrumBand[];
+  levels: Float32Array;
+  peaks: PeakHold;
+  spectrogram: Spectrogram | null;
+}
+
+// Labels closer than this to the previous one are skipped, which thins the crowded end of an axis.
+const MIN_LABEL_GAP = 28;
+
+const dbTicks = (minDb: number, maxDb: number) => {
+  const ticks: number[] = [];
+  for (let d = Math.ceil(minDb / DB_TICK_STEP) * DB_TICK_STEP; d <= maxDb; d += DB_TICK_STEP) ticks.push(d);
+  return ticks;
+};
+
+const drawAxes = (
+  ctx: CanvasRenderingContext2D, width: number, height: number, margin: number,
+  scale: FrequencyScale, nyquist: number, db: [number, number] | null,
+) => {
+  const plotW = width - margin * 2;
+  const plotH = height - margin * 2;
+  ctx.save();
+  ctx.font = '10px ui-sans-serif, system-ui, sans-serif';
+  ctx.fillStyle = '#71717a';
+  ctx.strokeStyle = '#3f3f46';
+  ctx.lineWidth = 1;
+
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'top';
+  let lastX = -Infinity;
+  for (const hz of HZ_TICKS) {
+    const f = frequencyToFraction(hz, scale, nyquist);
+    if (f === null) continue;
+    const x = Math.round(margin + f * plotW) + 0.5;
+    if (x - lastX < MIN_LABEL_GAP) continue;
+    lastX = x;
+    ctx.beginPath(); ctx.moveTo(x, height - margin); ctx.lineTo(x, height - margin + 4); ctx.stroke();
+    ctx.fillText(formatHz(hz), x, height - margin + 6);
+  }
+  ctx.textAlign = 'left';
+  ctx.fillText('Hz', width - margin + 6, height - margin + 6);
+
+  if (db) {
+    const [minDb, maxDb] = db;
+    ctx.textAlign = 'right';
+    ctx.textBaseline = 'middle';
+    for (const d of dbTicks(minDb, maxDb)) {
+      ctx.fillText(`${d}`, margin - 6, height - margin - ((d - minDb) / (maxDb - minDb)) * plotH);
+    }
+    ctx.textBaseline = 'bottom';
+    ctx.fillText('dB', margin - 6, margin - 8);
+  }
+  ctx.restore();
+};
+
+// Hz range, level and nearest note of the hovered band, just above the lens (or below it near the top).
+const drawBandTooltip = (ctx: CanvasRenderingContext2D, lines: string[], cx: number, lensTop: number, lensBottom: number, width: number) => {
+  ctx.save();
+  ctx.font = '11px ui-sans-serif, system-ui, sans-serif';
+  const padX = 8, lineH = 15;
+  const w = Math.max(...lines.map(l => ctx.measureText(l).width)) + padX * 2;
+  const h = lines.length * lineH + 8;
+  const x = Math.max(4, Math.min(width - w - 4, cx - w / 2));
+  const y = lensTop - h - 6 >= 4 ? lensTop - h - 6 : lensBottom + 6;
+  ctx.fillStyle = 'rgba(15,15,15,0.85)';
+  ctx.strokeStyle = '#27272a';
+  ctx.beginPath(); ctx.roundRect(x, y, w, h, 8); ctx.fill(); ctx.stroke();
+  ctx.fillStyle = '#e4e4e7';
+  ctx.textBaseline = 'top';
+  lines.forEach((l, i) => ctx.fillText(l, x + padX, y + 4 + i * lineH + 1));
+  ctx.restore();
 };
 
-const DataView: React.FC<DataViewProps> = ({ analyser, currentTrack, onEnterScene, is3DMode }) => {
+const DataView: React.FC<DataViewProps> = ({ analyser, currentTrack, onEnterScene }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const webglCanvasRef = useRef<HTMLCanvasElement>(null);
-  const webglSceneRef = useRef<{ destroy: () => void } | null>(null);
+  const sceneContainerRef = useRef<HTMLDivElement>(null);
+  const webglSceneRef = useRef<Visualizer | null>(null);
+  const sceneEntry = getSceneForTrack(currentTrack);
+  const is3DMode = sceneEntry.webgl;
   const animationFrameId = useRef<number>(0);
-  const dataArray = useRef<Uint8Array | null>(null);
   const particles = useRef<Particle[]>([]);
+  const trackRef = useRef(currentTrack);
+  trackRef.current = currentTrack;
+  const [display, setDisplay] = useState(loadSpectrumDisplay);
+  const bandState = useRef<BandState | null>(null);
+
+  const handleDisplayChange = useCallback((value: SpectrumDisplaySettings) => {
+    setDisplay(value);
+    saveSpectrumDisplay(value);
+  }, []);
 
   const lensState = useRef({
-    isHovering: false, mouseX: 0, mouseY: 0, hoverIndex: -1,
-    targetX: 0, targetY: 0, targetR: 0,
-    posX: 0, posY: 0, posR: 0,
-    velX: 0, velY: 0, velR: 0,
-    alpha: 0,
+    ...createLensSet(),
+    // The first lens's band drives the shared audio features; once entered it's handed to the scene.
+    focus: null as SpectrumBand | null,
+    locked: false,
   });
 
-  useEffect(() => {
-    if (!is3DMode || !analyser || !webglCanvasRef.current) {
-      // If we are not in 3D mode, ensure any existing webgl scene is cleaned up.
-      if (webglSceneRef.current) {
-        webglSceneRef.current.destroy();
-        webglSceneRef.current = null;
-      }
-      return;
-    }
-
-    const canvas = webglCanvasRef.current;
-    
-    // Defer initialization by one frame to avoid race conditions
-    const timeoutId = setTimeout(() => {
-      // Clean up previous scene if one exists from a rapid change
-      if (webglSceneRef.current) {
-        webglSceneRef.current.destroy();
-      }
-      
-      let scene;
-      if (currentTrack.id === 'too-sweet') {
-        scene = new ThreeScene(canvas, analyser, currentTrack);
-      } else if (currentTrack.id === 'journey') {
-        scene = new JourneyScene(canvas, analyser, currentTrack);
-      } else if (currentTrack.id === 'believer') {
-        scene = new BelieverScene(canvas, analyser, currentTrack);
-      }
-      
-      if (scene) {
-        scene.init();
-        webglSceneRef.current = scene;
-      }
-    }, 16); // A delay of ~1 frame is usually sufficient
+  // Leaving the data view any other way than into the scene drops the focus.
+  useEffect(() => () => {
+    if (analyser && !lensState.current.locked) getAudioFeatures(analyser).setFocus(null);
+  }, [analyser]);
 
-    // This cleanup function will run on unmount or when dependencies change.
+  // The WebGL scene runs behind the spectrum as a preview; entering the scene keeps the same instance.
+  useEffect(() => {
+    const container = sceneContainerRef.current;
+    if (!is3DMode || !analyser || !container) return;
+    webglSceneRef.current = attachScene(container, sceneEntry, analyser, trackRef.current, { preview: true });
     return () => {
-      clearTimeout(timeoutId);
-      if (webglSceneRef.current) {
-        webglSceneRef.current.destroy();
-        webglSceneRef.current = null;
-      }
+      webglSceneRef.current = null;
+      detachScene(container);
     };
-  }, [is3DMode, analyser, currentTrack]);
+  }, [is3DMode, analyser, sceneEntry]);
+
+  // Same scene, new track: blend the colors rather than rebuild the renderer.
+  useEffect(() => {
+    webglSceneRef.current?.setPalette(currentTrack.palette);
+  }, [currentTrack]);
 
   const renderCanvas = useCallback(() => {
     animationFrameId.current = requestAnimationFrame(renderCanvas);
 
     const canvas = canvasRef.current;
     const ctx = canvas?.getContext('2d');
-    if (!ctx || !canvas || !analyser || !dataArray.current) return;
+    if (!ctx || !canvas || !analyser) return;
 
-    analyser.getByteFrequencyData(dataArray.current);
+    const frame = getAudioFeatures(analyser).sample();
+    const spectrum = frame.spectrum;
     const { clientWidth: width, clientHeight: height } = canvas;
 
     ctx.clearRect(0, 0, width, height);
@@ -99,87 +164,148 @@ const DataView: React.FC<DataViewProps> = ({ analyser, currentTrack, onEnterScen
     const margin = 36;
     const barGap = 3;
     const barW = (width - margin * 2 - (nBars - 1) * barGap) / nBars;
-    const step = Math.floor(analyser.frequencyBinCount / nBars);
+    const plotH = height - margin * 2;
+    const nyquist = analyser.context.sampleRate / 2;
+    const waterfall = display.style === 'spectrogram';
 
-    ctx.strokeStyle = '#101010';
-    ctx.lineWidth = 1;
-    for (let i = 0; i <= 8; i++) {
-      const y = Math.round(margin + ((height - margin * 2) / 8) * i) + 0.5;
-      ctx.beginPath(); ctx.moveTo(margin, y); ctx.lineTo(width - margin, y); ctx.stroke();
+    const key = `${display.scale}:${spectrum.length}:${nyquist}`;
+    if (bandState.current?.key !== key) {
+      bandState.current = {
+        key,
+        bands: buildBands(nBars, spectrum.length, nyquist, display.scale),
+        levels: new Float32Array(nBars),
+        peaks: new PeakHold(nBars),
+        spectrogram: null,
+      };
+    }
+    const bs = bandState.current;
+    const levels = aggregateBands(spectrum, bs.bands, bs.levels);
+    bs.peaks.update(levels, frame.time);
+    if (waterfall) (bs.spectrogram ??= new Spectrogram(nBars)).push(levels);
+    else bs.spectrogram = null;
+
+    const levelY = (v: number) => height - margin - (v / 255) * plotH;
+    if (waterfall) {
+      bs.spectrogram!.draw(ctx, margin, margin, width - margin * 2, plotH);
+    } else {
+      ctx.strokeStyle = '#101010';
+      ctx.lineWidth = 1;
+      // With axes on, the grid follows the dB labels.
+      const gridYs = display.axes
+        ? dbTicks(analyser.minDecibels, analyser.maxDecibels)
+            .map(d => levelY(((d - analyser.minDecibels) / (analyser.maxDecibels - analyser.minDecibels)) * 255))
+        : Array.from({ length: 9 }, (_, i) => margin + (plotH / 8) * i);
+      for (const gy of gridYs) {
+        const y = Math.round(gy) + 0.5;
+        ctx.beginPath(); ctx.moveTo(margin, y); ctx.lineTo(width - margin, y); ctx.stroke();
+      }
     }
 
     let x = margin;
     const barShapes: { x: number; y: number; w: number; h: number }[] = [];
     const state = lensState.current;
-    let newHover = -1;
 
+    // In the waterfall every band is a full-height column, so the lens can open anywhere on it.
     for (let i = 0; i < nBars; i++) {
-      const v = dataArray.current[i * step] || 0;
-      const h = (v / 255) * (height - margin * 2);
-      const s = { x, y: height - margin - h, w: barW, h };
-      barShapes.push(s);
+      const h = waterfall ? plotH : (levels[i] / 255) * plotH;
+      barShapes.push({ x, y: height - margin - h, w: barW, h });
       x += barW + barGap;
-      if (state.isHovering && state.mouseX >= s.x && state.mouseX <= s.x + s.w && state.mouseY >= s.y && state.mouseY <= s.y + s.h) {
-        newHover = i;
-      }
     }
-    state.hoverIndex = newHover;
-
-    for (let i = 0; i < nBars; i++) {
-      const s = barShapes[i];
-      const v = dataArray.current[i * step] || 0;
-      const g = Math.round(180 - v * 0.6);
-      ctx.fillStyle = `rgb(${g},${g},${g})`;
-      ctx.fillRect(s.x, s.y, s.w, s.h);
+    // A mouse has to be over a bar. A finger covers what it touches, so it takes the whole column, gap included.
+    const hitTest = (lens: Lens) => barShapes.findIndex(s => lens.mouse
+      ? lens.mouseX >= s.x && lens.mouseX <= s.x + s.w && lens.mouseY >= s.y && lens.mouseY <= s.y + s.h
+      : lens.mouseX >= s.x && lens.mouseX < s.x + s.w + barGap);
+    for (const lens of state.lenses) {
+      lens.hoverIndex = lens.isHovering ? hitTest(lens) : -1;
+      lens.band = lens.hoverIndex >= 0 ? bs.bands[lens.hoverIndex] : null;
+    }
+    const hovered = state.lenses.find(l => l.band)?.band ?? null;
+    if (!state.locked && hovered !== state.focus) {
+      state.focus = hovered;
+      getAudioFeatures(analyser).setFocus(hovered && { low: hovered.fLo, high: hovered.fHi });
     }
 
-    const shouldDrawLens = state.isHovering && state.hoverIndex >= 0;
-    if (shouldDrawLens) {
-      const rect = barShapes[state.hoverIndex];
-      state.targetX = rect.x + rect.w / 2;
-      state.targetY = state.mouseY;
-      const bassNow = avg(dataArray.current, 2, 48) / 255;
-      state.targetR = Math.max(70, Math.min(150, rect.w * 3)) * (0.95 + bassNow * 0.25);
-    } else {
-      state.targetR = 0;
+    if (!waterfall) {
+      for (let i = 0; i < nBars; i++) {
+        const s = barShapes[i];
+        const g = Math.round(180 - levels[i] * 0.6);
+        ctx.fillStyle = `rgb(${g},${g},${g})`;
+        ctx.fillRect(s.x, s.y, s.w, s.h);
+      }
+      if (display.peaks) {
+        ctx.fillStyle = '#a1a1aa';
+        for (let i = 0; i < nBars; i++) {
+          if (bs.peaks.values[i] < 1) continue;
+          ctx.fillRect(barShapes[i].x, Math.round(levelY(bs.peaks.values[i])) - 1, barW, 2);
+        }
+      }
+    }
+    if (display.axes) {
+      drawAxes(ctx, width, height, margin, display.scale, nyquist,
+        waterfall ? null : [analyser.minDecibels, analyser.maxDecibels]);
     }
 
-    const k = 0.06, d = 0.7;
-    state.velX = (state.velX + (state.targetX - state.posX) * k) * d; state.posX += state.velX;
-    state.velY = (state.velY + (state.targetY - state.posY) * k) * d; state.posY += state.velY;
-    state.velR = (state.velR + (state.targetR - state.posR) * k) * d; state.posR += state.velR;
-    state.alpha += ((shouldDrawLens ? 1 : 0) - state.alpha) * 0.15;
+    for (const lens of state.lenses) {
+      const shown = lens.band !== null;
+      if (shown) {
+        const rect = barShapes[lens.hoverIndex];
+        lens.targetX = rect.x + rect.w / 2;
+        lens.targetY = lens.mouseY;
+        lens.targetR = Math.max(70, Math.min(150, rect.w * 3)) * (0.95 + frame.bass * 0.25) * state.radiusScale;
+      } else {
+        lens.targetR = 0;
+      }
+      stepLens(lens, shown);
+    }
 
-    if (state.alpha > 0.01 && state.posR > 1) {
+    const open = state.lenses.filter(l => l.alpha > 0.01 && l.posR > 1);
+    const lensGradient = (lens: Lens, alpha: number) => {
+      const grad = ctx.createRadialGradient(lens.posX, lens.posY, lens.posR * 0.5, lens.posX, lens.posY, lens.posR);
+      grad.addColorStop(0, `rgba(0,0,0,${alpha})`);
+      grad.addColorStop(1, 'rgba(0,0,0,0)');
+      return grad;
+    };
+    if (open.length) {
       ctx.save();
       if (is3DMode) {
         ctx.globalCompositeOperation = 'destination-out';
-        const grad = ctx.createRadialGradient(state.posX, state.posY, state.posR * 0.5, state.posX, state.posY, state.posR);
-        grad.addColorStop(0, `rgba(0,0,0,${state.alpha})`);
-        grad.addColorStop(1, 'rgba(0,0,0,0)');
-        ctx.fillStyle = grad;
-        ctx.fillRect(0, 0, width, height);
+        for (const lens of open) {
+          ctx.fillStyle = lensGradient(lens, lens.alpha);
+          ctx.fillRect(0, 0, width, height);
+        }
       } else {
-        ctx.globalAlpha = state.alpha;
+        // The particles move each time they're drawn, so both lenses share one pass.
         ctx.beginPath(); barShapes.forEach(s => ctx.rect(s.x, s.y, s.w, s.h)); ctx.clip();
-        const mid = avg(dataArray.current, 64, 256) / 255;
-        const count = Math.floor(80 + mid * 150);
+        ctx.beginPath();
+        open.forEach(l => { ctx.moveTo(l.posX + l.posR, l.posY); ctx.arc(l.posX, l.posY, l.posR, 0, Math.PI * 2); });
+        ctx.clip();
+        const count = Math.floor(80 + frame.mid * 150);
         particles.current = ensureParticles(particles.current, count, width, height);
-        renderEmotionScene(ctx, currentTrack, dataArray.current, particles.current, width, height);
+        renderEmotionScene(ctx, currentTrack.palette, frame, particles.current, width, height);
         ctx.globalCompositeOperation = 'destination-in';
-        const g2 = ctx.createRadialGradient(state.posX, state.posY, state.posR * 0.5, state.posX, state.posY, state.posR);
-        g2.addColorStop(0, 'rgba(0,0,0,1)');
-        g2.addColorStop(1, 'rgba(0,0,0,0)');
-        ctx.fillStyle = g2; ctx.fillRect(0, 0, width, height);
+        for (const lens of open) {
+          ctx.save();
+          ctx.beginPath(); ctx.arc(lens.posX, lens.posY, lens.posR, 0, Math.PI * 2); ctx.clip();
+          ctx.globalAlpha = lens.alpha;
+          ctx.fillStyle = lensGradient(lens, 1); ctx.fillRect(0, 0, width, height);
+          ctx.restore();
+        }
       }
       ctx.restore();
     }
-  }, [analyser, currentTrack, is3DMode]);
+
+    for (const lens of state.lenses) {
+      if (!lens.band || lens.alpha <= 0.5) continue;
+      const note = nearestNote(bandCenter(lens.band));
+      const db = byteToDb(levels[lens.hoverIndex], analyser.minDecibels, analyser.maxDecibels);
+      const lines = [formatHzRange(lens.band.fLo, lens.band.fHi), `${Math.round(db)} dB${note ? ` • ${note}` : ''}`];
+      drawBandTooltip(ctx, lines, lens.posX, lens.posY - lens.posR, lens.posY + lens.posR, width);
+    }
+  }, [analyser, currentTrack, is3DMode, display]);
 
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas || !analyser) return;
-    dataArray.current = new Uint8Array(analyser.frequencyBinCount);
     const resize = () => {
       const dpr = Math.min(2, window.devicePixelRatio || 1);
       const { clientWidth, clientHeight } = canvas;
@@ -187,45 +313,41 @@ const DataView: React.FC<DataViewProps> = ({ analyser, currentTrack, onEnterScen
       canvas.height = Math.round(clientHeight * dpr);
       const ctx = canvas.getContext('2d');
       ctx?.scale(dpr, dpr);
-      if (webglSceneRef.current && 'setSize' in webglSceneRef.current) {
-        (webglSceneRef.current as any).setSize(clientWidth, clientHeight, dpr);
-      }
     };
-    const onMove = (e: MouseEvent) => {
-      const rect = canvas.getBoundingClientRect();
+    // The scene opens from the lens that asked and follows that lens's band.
+    const onEnter = (lens: Lens) => {
       const s = lensState.current;
-      const x = e.clientX - rect.left, y = e.clientY - rect.top;
-      if (!s.isHovering) { s.posX = x; s.posY = y; s.posR = 0; s.velX = s.velY = s.velR = 0; }
-      s.isHovering = true; s.mouseX = x; s.mouseY = y;
+      if (!lens.band) return;
+      const rect = canvas.getBoundingClientRect();
+      s.locked = true;
+      if (lens.band !== s.focus) {
+        s.focus = lens.band;
+        getAudioFeatures(analyser).setFocus({ low: lens.band.fLo, high: lens.band.fHi });
+      }
+      onEnterScene({ x: rect.left + lens.posX, y: rect.top + lens.posY, r: lens.posR }, { low: lens.band.fLo, high: lens.band.fHi });
     };
-    const onLeave = () => { const s = lensState.current; s.isHovering = false; s.hoverIndex = -1; };
-    const onClick = () => { if (lensState.current.hoverIndex !== -1) onEnterScene(); };
 
     resize();
     window.addEventListener('resize', resize);
-    canvas.addEventListener('mousemove', onMove);
-    canvas.addEventListener('mouseleave', onLeave);
-    canvas.addEventListener('click', onClick);
+    const unbindPointers = bindLensPointers(canvas, lensState.current, onEnter);
 
     animationFrameId.current = requestAnimationFrame(renderCanvas);
     return () => {
       cancelAnimationFrame(animationFrameId.current);
       window.removeEventListener('resize', resize);
-      canvas.removeEventListener('mousemove', onMove);
-      canvas.removeEventListener('mouseleave', onLeave);
-      canvas.removeEventListener('click', onClick);
+      unbindPointers();
     };
   }, [analyser, renderCanvas, onEnterScene]);
 
   return (
     <div className="relative w-full h-full">
-      <canvas
-        ref={webglCanvasRef}
-        className={`absolute inset-0 w-full h-full block pointer-events-none ${is3DMode ? '' : 'hidden'}`}
-      />
-      <canvas ref={canvasRef} className="absolute inset-0 w-full h-full block" />
+      <div ref={sceneContainerRef} className="absolute inset-0 pointer-events-none" />
+      <canvas ref={canvasRef} className="absolute inset-0 w-full h-full block touch-none" />
+      <div className="absolute right-4 top-4">
+        <SpectrumControls value={display} onChange={handleDisplayChange} />
+      </div>
       <div className="absolute left-4 bottom-4 bg-[rgba(15,15,15,0.7)] backdrop-blur-md px-3 py-2.5 rounded-xl border border-zinc-800 text-xs text-gray-300 pointer-events-none">
-        Neutral spectrum (grayscale). Your emotions remain hidden… until you hover.
+        Neutral spectrum (grayscale). Your emotions remain hidden… until you hover or touch.
       </div>
     </div>
   );
@@ -1,23 +1,16 @@
 
-import type { Track, Particle } from '../types';
+import type { Particle } from '../types';
+import type { AudioFeatureFrame } from './AudioFeatures';
+import { motionScale } from './MotionSafety';
 
-const avg = (arr: Uint8Array, s: number, e: number): number => {
-    let sum = 0, n = 0;
-    for (let i = s; i <= e && i < arr.length; i++) {
-        sum += arr[i];
-        n++;
-    }
-    return n ? sum / n : 0;
-};
-
-export const ensureParticles = (particles: Particle[], n: number, w: number, h: number): Particle[] => {
+export const ensureParticles = (particles: Particle[], n: number, w: number, h: number, random: () => number = Math.random): Particle[] => {
     while (particles.length < n) {
       particles.push({
-        x: Math.random() * w,
-        y: Math.random() * h,
-        vx: (Math.random() - 0.5) * 0.4,
-        vy: (Math.random() - 0.5) * 0.4,
-        s: Math.random() * 2 + 0.5
+        x: random() * w,
+        y: random() * h,
+        vx: (random() - 0.5) * 0.4,
+        vy: (random() - 0.5) * 0.4,
+        s: random() * 2 + 0.5
       });
     }
     while (particles.length > n) {
@@ -28,21 +21,22 @@ export const ensureParticles = (particles: Particle[], n: number, w: number, h:
 
 export const renderEmotionScene = (
     ctx: CanvasRenderingContext2D,
-    track: Track,
-    data: Uint8Array,
+    palette: string[],
+    frame: AudioFeatureFrame,
     particles: Particle[],
     canvasWidth: number,
-    canvasHeight: number
+    canvasHeight: number,
+    random: () => number = Math.random
 ) => {
-    const bass = avg(data, 2, 48) / 255;
-    const mid = avg(data, 64, 256) / 255;
-    const tre = avg(data, 257, 512) / 255;
-    const t = performance.now() * 0.0006;
+    // Safe modes scale down how far the audio moves things, and how fast.
+    const motion = motionScale();
+    const bass = frame.bass * motion, mid = frame.mid * motion, tre = frame.treble * motion;
+    const t = frame.time * 0.0006 * motion;
     
     // Background
     const g = ctx.createLinearGradient(0, 0, canvasWidth, canvasHeight);
-    track.palette.forEach((color, i) => {
-      const shift = (i / track.palette.length + t * 0.05 + bass * 0.1) % 1;
+    palette.forEach((color, i) => {
+      const shift = (i / palette.length + t * 0.05 + bass * 0.1) % 1;
       g.addColorStop(shift, color);
     });
     ctx.globalAlpha = 0.45;
@@ -53,10 +47,10 @@ export const renderEmotionScene = (
     // Particles update and draw
     ctx.fillStyle = `rgba(255,255,255,${0.5 + tre * 0.4})`;
     particles.forEach(p => {
-      p.vx += (Math.random() - 0.5) * 0.02 * (0.5 + tre);
-      p.vy += (Math.random() - 0.5) * 0.02 * (0.5 + tre);
-      p.x += p.vx * (0.6 + mid * 1.4);
-      p.y += p.vy * (0.6 + mid * 1.4);
+      p.vx += (random() - 0.5) * 0.02 * (0.5 + tre);
+      p.vy += (random() - 0.5) * 0.02 * (0.5 + tre);
+      p.x += p.vx * (0.6 + mid * 1.4) * motion;
+      p.y += p.vy * (0.6 + mid * 1.4) * motion;
       if (p.x < 0) p.x += canvasWidth; if (p.x > canvasWidth) p.x -= canvasWidth;
       if (p.y < 0) p.y += canvasHeight; if (p.y > canvasHeight) p.y -= canvasHeight;
       ctx.fillRect(p.x, p.y, p.s, p.s);
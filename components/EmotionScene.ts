@@ -0,0 +1,116 @@
+import type { Track, Particle, Visualizer } from '../types';
+import { renderEmotionScene, ensureParticles } from './EmotionRenderer';
+import { getAudioFeatures } from './AudioFeatures';
+import { realtimeDriver } from './FrameDriver';
+import { PaletteBlend } from './PaletteBlend';
+import { defaultParams, resolveParams } from './SceneParams';
+import { renderDpr } from './QualityGovernor';
+import type { QualityTier } from './QualityGovernor';
+import type { SceneParam, SceneParamValues } from './SceneParams';
+import type { FrameDriver } from './FrameDriver';
+import type { AudioFeatures, SpectrumSource } from './AudioFeatures';
+
+export const EMOTION_SCENE_PARAMS: SceneParam[] = [
+  { key: 'particleBase', label: 'Particles', min: 0, max: 600, step: 10, value: 140 },
+  { key: 'particleMid', label: 'Particles × mid', min: 0, max: 1000, step: 10, value: 260 },
+];
+
+interface EmotionQualityTier extends QualityTier {
+  particleScale: number;
+}
+
+export const EMOTION_QUALITY_TIERS: EmotionQualityTier[] = [
+  { label: 'Low', maxDpr: 1, particleScale: 0.3 },
+  { label: 'Medium', maxDpr: 1.5, particleScale: 0.6 },
+  { label: 'Full', maxDpr: 2, particleScale: 1 },
+];
+
+// 2D canvas fallback used by tracks without a bespoke WebGL scene.
+export class EmotionScene implements Visualizer {
+  private canvas: HTMLCanvasElement;
+  private features: AudioFeatures;
+  private driver: FrameDriver;
+  private palette: PaletteBlend;
+  private lastTime = -1;
+  private params: SceneParamValues = defaultParams(EMOTION_SCENE_PARAMS);
+  private particles: Particle[] = [];
+  private quality = EMOTION_QUALITY_TIERS[EMOTION_QUALITY_TIERS.length - 1];
+  private renderScale = 1;
+
+  private animationFrameId = 0;
+
+  constructor(canvas: HTMLCanvasElement, analyser: SpectrumSource, track: Track, driver: FrameDriver = realtimeDriver) {
+    this.canvas = canvas;
+    this.driver = driver;
+    this.features = getAudioFeatures(analyser);
+    this.palette = new PaletteBlend(track.palette);
+  }
+
+  public init() {
+    this.handleResize();
+    window.addEventListener('resize', this.handleResize);
+    this.animate();
+  }
+
+  private animate = () => {
+    this.animationFrameId = this.driver.request(this.animate);
+    const ctx = this.canvas.getContext('2d');
+    if (!ctx) return;
+
+    const frame = this.features.sample(this.driver.now());
+    const { clientWidth: w, clientHeight: h } = this.canvas;
+    ctx.clearRect(0, 0, w, h);
+
+    const count = Math.floor((this.params.particleBase + frame.mid * this.params.particleMid) * this.quality.particleScale);
+    const particles = ensureParticles(this.particles, count, w, h, this.driver.random);
+
+    this.palette.setOverride(frame.cues?.palette ?? null, frame.cues?.paletteFade);
+    if (this.lastTime >= 0) this.palette.step((frame.time - this.lastTime) / 1000);
+    this.lastTime = frame.time;
+
+    renderEmotionScene(ctx, this.palette.hexes(), frame, particles, w, h, this.driver.random);
+  };
+
+  public setPalette(palette: string[]) {
+    this.palette.setTarget(palette);
+  }
+
+  public setParams(values: SceneParamValues) {
+    this.params = resolveParams(EMOTION_SCENE_PARAMS, values);
+  }
+
+  public setQuality(tier: number) {
+    this.quality = EMOTION_QUALITY_TIERS[Math.max(0, Math.min(EMOTION_QUALITY_TIERS.length - 1, tier))];
+    this.handleResize();
+  }
+
+  public setRenderScale(scale: number) {
+    this.renderScale = scale;
+    this.handleResize();
+  }
+
+  public setSize(width: number, height: number, dpr = 1) {
+    this.canvas.width = Math.round(width * dpr);
+    this.canvas.height = Math.round(height * dpr);
+    this.canvas.getContext('2d')?.setTransform(dpr, 0, 0, dpr, 0, 0);
+  }
+
+  private handleResize = () => {
+    const { clientWidth, clientHeight } = this.canvas;
+    this.setSize(clientWidth, clientHeight, renderDpr(this.quality) * this.renderScale);
+  };
+
+  public pause() {
+    if (this.animationFrameId) this.driver.cancel(this.animationFrameId);
+    this.animationFrameId = 0;
+  }
+
+  public resume() {
+    if (!this.animationFrameId) this.animate();
+  }
+
+  public destroy() {
+    this.pause();
+    window.removeEventListener('resize', this.handleResize);
+  }
+}
@@ -0,0 +1,59 @@
+// Clock, frame scheduling and randomness for scenes. Live playback uses the browser's;
+// offline rendering swaps in a ManualFrameDriver so every frame is repeatable.
+
+export interface FrameDriver {
+  now(): number;  // ms
+  request(callback: () => void): number;
+  cancel(id: number): void;
+  random(): number;
+}
+
+export const realtimeDriver: FrameDriver = {
+  now: () => performance.now(),
+  request: (callback) => requestAnimationFrame(callback),
+  cancel: (id) => cancelAnimationFrame(id),
+  random: () => Math.random(),
+};
+
+// mulberry32: tiny seeded PRNG, plenty for visual jitter.
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// Frames only advance when step() is called, at whatever pace the caller can manage.
+export class ManualFrameDriver implements FrameDriver {
+  private time: number;
+  private nextId = 1;
+  private pending = new Map<number, () => void>();
+  public readonly random: () => number;
+
+  constructor(startMs = 0, seed = 1) {
+    this.time = startMs;
+    this.random = seededRandom(seed);
+  }
+
+  public now(): number {
+    return this.time;
+  }
+
+  public request(callback: () => void): number {
+    const id = this.nextId++;
+    this.pending.set(id, callback);
+    return id;
+  }
+
+  public cancel(id: number) {
+    this.pending.delete(id);
+  }
+
+  // Advances the clock and runs the callbacks queued for this frame, like one rAF tick.
+  public step(dtMs: number) {
+    this.time += dtMs;
+    const due = [...this.pending.values()];
+    this.pending.clear();
+    due.forEach(cb => cb());
+  }
+}
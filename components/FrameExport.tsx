@@ -0,0 +1,95 @@
+import React, { useState, useRef, useCallback, useEffect } from 'react';
+import type { Track } from '../types';
+import { trackUrl } from '../constants';
+import { renderFrameSequence, pickFrameDirectory, isFrameExportSupported } from './OfflineRender';
+import type { SceneParamValues } from './SceneParams';
+
+interface FrameExportProps {
+  track: Track;
+  params?: SceneParamValues;
+}
+
+const RESOLUTIONS = [
+  { label: '1080p', width: 1920, height: 1080 },
+  { label: '1440p', width: 2560, height: 1440 },
+  { label: '4K', width: 3840, height: 2160 },
+];
+const FRAME_RATES = [30, 60];
+
+const pillClass = "text-xs text-zinc-300 border border-zinc-800 rounded-full px-3 py-1.5 bg-[rgba(10,10,10,0.7)] backdrop-blur-md cursor-pointer hover:border-zinc-600 hover:text-white transition-colors";
+
+const FrameExport: React.FC<FrameExportProps> = ({ track, params }) => {
+  const [open, setOpen] = useState(false);
+  const [resolution, setResolution] = useState(2);
+  const [fps, setFps] = useState(60);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleExport = useCallback(async () => {
+    setError(null);
+    const { width, height } = RESOLUTIONS[resolution];
+    try {
+      // The directory picker needs the click's user activation, so it goes first.
+      const write = await pickFrameDirectory(`${track.id}_${width}x${height}_${fps}`);
+      const controller = new AbortController();
+      abortRef.current = controller;
+      setProgress({ done: 0, total: 0 });
+      await renderFrameSequence(track, trackUrl(track), {
+        width, height, fps, params,
+        signal: controller.signal,
+        onProgress: (done, total) => setProgress({ done, total }),
+      }, write);
+    } catch (e) {
+      if ((e as Error).name !== 'AbortError') {
+        console.error("Error exporting frames:", e);
+        setError((e as Error).message);
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  }, [track, params, resolution, fps]);
+
+  if (!isFrameExportSupported() || !track.file) return null;
+
+  if (progress) {
+    const pct = progress.total ? Math.floor((progress.done / progress.total) * 100) : 0;
+    return (
+      <button onClick={() => abortRef.current?.abort()} className={pillClass} title="Cancel export">
+        Exporting {progress.total ? `${progress.done}/${progress.total} (${pct}%)` : '…'} ✕
+      </button>
+    );
+  }
+
+  return (
+    <div className="relative">
+      <button onClick={() => setOpen(o => !o)} className={pillClass} title="Render a PNG frame sequence at a fixed frame rate">
+        Export frames
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-56 flex flex-col gap-2 p-3 rounded-xl border border-zinc-800 bg-[rgba(15,15,15,0.9)] backdrop-blur-md text-xs text-zinc-300">
+          <label className="flex items-center justify-between">
+            Resolution
+            <select value={resolution} onChange={(e) => setResolution(Number(e.target.value))} className="bg-[#121212] border border-zinc-800 rounded px-2 py-1">
+              {RESOLUTIONS.map((r, i) => <option key={r.label} value={i}>{r.label}</option>)}
+            </select>
+          </label>
+          <label className="flex items-center justify-between">
+            Frame rate
+            <select value={fps} onChange={(e) => setFps(Number(e.target.value))} className="bg-[#121212] border border-zinc-800 rounded px-2 py-1">
+              {FRAME_RATES.map(r => <option key={r} value={r}>{r} fps</option>)}
+            </select>
+          </label>
+          <div className="text-zinc-500">Frames are written as PNGs into a folder you choose. Add the audio back when editing.</div>
+          {error && <div className="text-[#ff6b6b]">{error}</div>}
+          <button onClick={handleExport} className={pillClass}>Choose folder & render</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FrameExport;
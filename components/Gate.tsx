@@ -3,19 +3,33 @@ import React from 'react';
 
 interface GateProps {
   onStart: () => void;
+  onStartLive?: () => void;
+  // Set when a link points into the app; the button then resumes there instead of starting fresh.
+  resumeLabel?: string;
 }
 
-const Gate: React.FC<GateProps> = ({ onStart }) => {
+const Gate: React.FC<GateProps> = ({ onStart, onStartLive, resumeLabel }) => {
   return (
     <div className="absolute inset-0 grid place-items-center">
-      <button 
-        onClick={onStart}
-        className="appearance-none border border-zinc-800 bg-[#121212] text-gray-200 rounded-full px-5 py-3 font-semibold cursor-pointer shadow-transparent transition-all duration-200 ease-in-out hover:shadow-[0_0_0_6px_rgba(108,204,255,0.08)] active:translate-y-px"
-      >
-        Start audio
-      </button>
+      <div className="flex flex-col items-center gap-3">
+        <button 
+          onClick={onStart}
+          className="appearance-none border border-zinc-800 bg-[#121212] text-gray-200 rounded-full px-5 py-3 font-semibold cursor-pointer shadow-transparent transition-all duration-200 ease-in-out hover:shadow-[0_0_0_6px_rgba(108,204,255,0.08)] active:translate-y-px"
+        >
+          {resumeLabel ? '▶ Resume' : 'Start audio'}
+        </button>
+        {resumeLabel && <div className="text-xs text-zinc-500">{resumeLabel}</div>}
+        {onStartLive && (
+          <button
+            onClick={onStartLive}
+            className="text-xs text-zinc-400 cursor-pointer hover:text-zinc-200 transition-colors"
+          >
+            or use live input (mic / line-in)
+          </button>
+        )}
+      </div>
     </div>
   );
 };
 
-export default Gate;
\ No newline at end of file
+export default Gate;
@@ -1,5 +1,6 @@
 
 import React from 'react';
+import SafetyToggle from './SafetyToggle';
 
 const Header: React.FC = () => {
   return (
@@ -8,7 +9,10 @@ const Header: React.FC = () => {
         <div className="tracking-wider font-bold text-white">SOUND OF ME</div>
         <div className="text-xs text-[#9aa0a6]">Landing: DATA (spectrum) → Hover: EMOTION lens → Click: Full scene</div>
       </div>
-      <div className="text-xs text-[#9aa0a6] hidden sm:block">Hover a band to reveal an emotion lens • Click to dive in</div>
+      <div className="flex items-center gap-3">
+        <div className="text-xs text-[#9aa0a6] hidden sm:block">Hover a band to reveal an emotion lens • Click to dive in</div>
+        <SafetyToggle />
+      </div>
     </header>
   );
 };
@@ -1,11 +1,15 @@
 import * as THREE from 'three';
-import type { Track } from '../types';
-
-const avg = (arr: Uint8Array, s: number, e: number): number => {
-  let sum = 0, n = 0;
-  for (let i = s; i <= e && i < arr.length; i++) { sum += arr[i]; n++; }
-  return n ? sum / n : 0;
-};
+import type { Track, Visualizer } from '../types';
+import { getAudioFeatures } from './AudioFeatures';
+import { realtimeDriver } from './FrameDriver';
+import { PaletteBlend } from './PaletteBlend';
+import { defaultParams, resolveParams } from './SceneParams';
+import { FlashGuard, LumaLimiter, limitsFlashes, motionScale } from './MotionSafety';
+import { renderDpr } from './QualityGovernor';
+import type { QualityTier } from './QualityGovernor';
+import type { SceneParam, SceneParamValues } from './SceneParams';
+import type { FrameDriver } from './FrameDriver';
+import type { AudioFeatures, SpectrumSource, TimelineFrame } from './AudioFeatures';
 
 // ===== Background gradient (kept soft) =====
 const bgVS = `
@@ -81,6 +85,7 @@ const rippleFS = `
   varying vec3  v_colA;
   varying vec3  v_colB;
   varying vec3  v_colC;
+  uniform float u_intensity;
 
   void main(){
     vec2 uv = gl_PointCoord - 0.5;
@@ -92,21 +97,48 @@ const rippleFS = `
 
     // Make the edge softer by starting the fade much earlier (from 70% of radius)
     float edge = 1.0 - smoothstep(0.70, 1.0, r);
-    float alpha = (1.0 - v_life) * edge;
+    float alpha = (1.0 - v_life) * edge * u_intensity;
     gl_FragColor = vec4(col, alpha);
 
     if(gl_FragColor.a < 0.01) discard;
   }
 `;
 
-export class JourneyScene {
+export const JOURNEY_SCENE_PARAMS: SceneParam[] = [
+  { key: 'rippleBase', label: 'Ripple base size', min: 0, max: 200, step: 5, value: 40 },
+  { key: 'rippleScale', label: 'Ripple × energy', min: 0, max: 1500, step: 10, value: 700 },
+  { key: 'rippleCurve', label: 'Energy curve', min: 1, max: 8, step: 0.5, value: 4 },
+  { key: 'durationBase', label: 'Duration base (s)', min: 0.1, max: 2, step: 0.05, value: 0.6 },
+  { key: 'durationScale', label: 'Duration × energy (s)', min: 0, max: 4, step: 0.1, value: 1.4 },
+  { key: 'kickDivisor', label: 'Kick cooldown (÷ beat)', min: 1, max: 8, step: 0.5, value: 3.5 },
+  { key: 'otherDivisor', label: 'Mid/high cooldown (÷ beat)', min: 1, max: 8, step: 0.5, value: 4.5 },
+  { key: 'smoothing', label: 'Band smoothing', min: 0.02, max: 0.5, step: 0.01, value: 0.18 },
+];
+
+interface JourneyQualityTier extends QualityTier {
+  ripples: number;  // live ripples at most
+}
+
+export const JOURNEY_QUALITY_TIERS: JourneyQualityTier[] = [
+  { label: 'Low', maxDpr: 0.75, ripples: 24 },
+  { label: 'Medium', maxDpr: 1, ripples: 48 },
+  { label: 'Full', maxDpr: 2, ripples: 96 },
+];
+
+export class JourneyScene implements Visualizer {
   private canvas: HTMLCanvasElement;
-  private analyser: AnalyserNode;
-  private track: Track;
-  private dataArray: Uint8Array;
-  private prevData: Uint8Array;
+  private features: AudioFeatures;
+  private driver: FrameDriver;
+  private palette: PaletteBlend;
+  private params: SceneParamValues = defaultParams(JOURNEY_SCENE_PARAMS);
+  private flowTime = 0;
+  private flashGuard = new FlashGuard();
+  private bassLuma = new LumaLimiter();
+  private quality = JOURNEY_QUALITY_TIERS[JOURNEY_QUALITY_TIERS.length - 1];
 
   private renderer!: THREE.WebGLRenderer;
+  private sharedRenderer: THREE.WebGLRenderer | null;
+  private renderScale = 1;
   private scene!: THREE.Scene;
   private camera!: THREE.OrthographicCamera;
 
@@ -135,8 +167,9 @@ export class JourneyScene {
   // Advanced beat detection
   private ema = 0;
   private cooldown = 0;
-  private lastNow = performance.now();
+  private lastNow = 0;
   private animationFrameId = 0;
+  private resumeOnRestore = false;
 
   // Onset detection
   private spectralFlux = 0;
@@ -157,31 +190,56 @@ export class JourneyScene {
   private bpmEstimate = 120;
   private bpmConfidence = 0;
 
+  // Cleared after a seek so the first frames don't read as a burst of beats
+  private primed = false;
+
   // Energy history for adaptive threshold
   private energyHistory: number[] = [];
   private readonly energyHistorySize = 90;
 
-  constructor(canvas: HTMLCanvasElement, analyser: AnalyserNode, track: Track) {
+  constructor(canvas: HTMLCanvasElement, analyser: SpectrumSource, track: Track, driver: FrameDriver = realtimeDriver, renderer?: THREE.WebGLRenderer) {
     this.canvas = canvas;
-    this.analyser = analyser;
-    this.track = track;
-    this.dataArray = new Uint8Array(this.analyser.frequencyBinCount);
-    this.prevData = new Uint8Array(this.analyser.frequencyBinCount);
+    this.driver = driver;
+    this.sharedRenderer = renderer ?? null;
+    this.features = getAudioFeatures(analyser);
+    this.palette = new PaletteBlend(track.palette);
   }
 
   public init() {
+    this.lastNow = this.driver.now();
     this.setupScene();
     this.setupBackground();
     this.setupRipples();
     this.handleResize();
     window.addEventListener('resize', this.handleResize);
+    this.canvas.addEventListener('webglcontextlost', this.handleContextLost);
+    this.canvas.addEventListener('webglcontextrestored', this.handleContextRestored);
     this.animate();
   }
 
+  // Shaders and ripple buffers lived in the old context; rebuild them on restore. Ripples in
+  // flight are dropped rather than replayed.
+  private handleContextLost = (e: Event) => {
+    e.preventDefault();
+    this.resumeOnRestore = this.animationFrameId !== 0;
+    this.pause();
+  };
+
+  private handleContextRestored = () => {
+    this.disposeResources();
+    this.scene.remove(this.bgMesh, this.rPoints);
+    this.pool = [];
+    this.live = [];
+    this.setupBackground();
+    this.setupRipples();
+    this.handleResize();
+    if (this.resumeOnRestore) this.resume();
+  };
+
   private setupScene() {
     this.scene = new THREE.Scene();
     this.camera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1);
-    this.renderer = new THREE.WebGLRenderer({ canvas: this.canvas, antialias: true, alpha: false });
+    this.renderer = this.sharedRenderer ?? new THREE.WebGLRenderer({ canvas: this.canvas, antialias: true, alpha: false });
     this.renderer.setClearColor(0x000000, 1);
   }
 
@@ -190,13 +248,38 @@ export class JourneyScene {
     this.bgUni = {
       u_time:   { value: 0 },
       u_bass:   { value: 0 },
-      u_color_a:{ value: new THREE.Color(this.track.palette?.[0] ?? '#9be15d') },
-      u_color_b:{ value: new THREE.Color(this.track.palette?.[1] ?? '#f9f871') },
-      u_color_c:{ value: new THREE.Color(this.track.palette?.[2] ?? '#6cd4ff') },
+      u_color_a:{ value: new THREE.Color() },
+      u_color_b:{ value: new THREE.Color() },
+      u_color_c:{ value: new THREE.Color() },
     };
     const mat = new THREE.ShaderMaterial({ uniforms: this.bgUni, vertexShader: bgVS, fragmentShader: bgFS, transparent: false });
     this.bgMesh = new THREE.Mesh(geo, mat);
     this.scene.add(this.bgMesh);
+    this.applyPalette();
+  }
+
+  private applyPalette() {
+    (this.bgUni.u_color_a.value as THREE.Color).setRGB(...this.palette.rgb(0), THREE.SRGBColorSpace);
+    (this.bgUni.u_color_b.value as THREE.Color).setRGB(...this.palette.rgb(1), THREE.SRGBColorSpace);
+    (this.bgUni.u_color_c.value as THREE.Color).setRGB(...this.palette.rgb(2), THREE.SRGBColorSpace);
+  }
+
+  public setPalette(palette: string[]) {
+    this.palette.setTarget(palette);
+  }
+
+  public setParams(values: SceneParamValues) {
+    this.params = resolveParams(JOURNEY_SCENE_PARAMS, values);
+  }
+
+  public setQuality(tier: number) {
+    this.quality = JOURNEY_QUALITY_TIERS[Math.max(0, Math.min(JOURNEY_QUALITY_TIERS.length - 1, tier))];
+    if (this.renderer) this.handleResize();
+  }
+
+  public setRenderScale(scale: number) {
+    this.renderScale = scale;
+    if (this.renderer) this.handleResize();
   }
 
   private setupRipples() {
@@ -237,6 +320,7 @@ export class JourneyScene {
     this.rUniforms = {
       u_time: { value: 0 },
       u_dpr:  { value: dpr },
+      u_intensity: { value: 1 },
     };
 
     const mat = new THREE.ShaderMaterial({
@@ -255,25 +339,45 @@ export class JourneyScene {
     this.scene.add(this.rPoints);
   }
 
+  // A cued density spawns that many ripples per hit around the first; a fraction is a chance of one more.
+  private spawnHit(cx: number, cy: number, energy: number, density: number) {
+    const fraction = density % 1;
+    const n = Math.floor(density) + (fraction > 0 && this.driver.random() < fraction ? 1 : 0);
+    if (n > 0) this.spawnRipple(cx, cy, energy);
+    for (let k = 1; k < n; k++) {
+      this.spawnRipple(cx + (this.driver.random() * 2 - 1) * 0.35, cy + (this.driver.random() * 2 - 1) * 0.35, energy);
+    }
+  }
+
   private spawnRipple(cx: number, cy: number, energy: number) {
+    if (this.live.length >= this.quality.ripples) return;
     const i = this.pool.pop();
     if (i === undefined) return;
     this.live.push(i);
 
-    const t = performance.now() * 0.001;
+    const t = this.driver.now() * 0.001;
     
     // Size (rmax) is now directly and exponentially tied to the beat's energy.
     // A small base size ensures even quiet beats are visible.
     // The exponential part creates a huge difference between soft and loud beats.
-    const rmax = 40 + 700 * Math.pow(energy, 4);
+    const p = this.params;
+    const limited = limitsFlashes();
+    let rmax = p.rippleBase + p.rippleScale * Math.pow(energy, p.rippleCurve);
 
     // Duration is also linked to energy, making larger ripples last longer.
-    const dur = 0.6 + energy * 1.4;
+    let dur = p.durationBase + energy * p.durationScale;
 
-    const base = this.track.palette ?? ['#6bd3ff','#00c2a8','#c9f658'];
-    const ca = new THREE.Color(base[Math.floor(Math.random()*base.length)]);
-    const cb = new THREE.Color(base[Math.floor(Math.random()*base.length)]);
-    const cc = new THREE.Color(base[Math.floor(Math.random()*base.length)]);
+    // Safe modes: smaller ripples that grow more slowly, so no large bright area appears at once.
+    if (limited) {
+      rmax *= 0.5;
+      dur *= 2;
+    }
+
+    // Ripples take the blended palette at spawn time, so they follow a palette change as it happens
+    const n = this.palette.length;
+    const ca = new THREE.Color().setRGB(...this.palette.rgb(Math.floor(this.driver.random()*n)), THREE.SRGBColorSpace);
+    const cb = new THREE.Color().setRGB(...this.palette.rgb(Math.floor(this.driver.random()*n)), THREE.SRGBColorSpace);
+    const cc = new THREE.Color().setRGB(...this.palette.rgb(Math.floor(this.driver.random()*n)), THREE.SRGBColorSpace);
 
     this.a_center[i*2+0] = cx;
     this.a_center[i*2+1] = cy;
@@ -309,34 +413,45 @@ export class JourneyScene {
   }
 
   private animate = () => {
-    this.animationFrameId = requestAnimationFrame(this.animate);
+    this.animationFrameId = this.driver.request(this.animate);
 
-    const now = performance.now();
+    const now = this.driver.now();
     const nowSec = now * 0.001;
     const dtMs = now - this.lastNow; 
     this.lastNow = now;
 
-    this.analyser.getByteFrequencyData(this.dataArray);
-    const bass = avg(this.dataArray, 0, 32) / 255;
-    const mid  = avg(this.dataArray, 32, 96) / 255;
-    const high = avg(this.dataArray, 96, 200) / 255;
+    const { bass, mid, treble: high, timeline, cues, discontinuity } = this.features.sample(now);
+    if (discontinuity) this.resetBeatHistory();
+
+    this.palette.setOverride(cues?.palette ?? null, cues?.paletteFade);
+    this.palette.step(dtMs * 0.001);
+    this.applyPalette();
 
-    this.bgUni.u_time.value = nowSec;
-    this.bgUni.u_bass.value = bass;
+    this.flowTime += dtMs * 0.001 * motionScale();
+    this.bgUni.u_time.value = this.flowTime;
+    this.bgUni.u_bass.value = this.bassLuma.step(bass, dtMs * 0.001);
+    this.rUniforms.u_intensity.value = limitsFlashes() ? 0.5 : 1;
 
-    this.detectAndSpawnRipples(now, dtMs, bass, mid, high);
+    this.detectAndSpawnRipples(now, dtMs, bass, mid, high, timeline, cues?.ripples ?? 1);
 
     this.rUniforms.u_time.value = nowSec;
     this.cullRipples(nowSec);
 
-    this.prevData.set(this.dataArray);
-
     this.renderer.render(this.scene, this.camera);
   };
 
-  private detectAndSpawnRipples(now: number, dtMs: number, bass: number, mid: number, high: number) {
+  private detectAndSpawnRipples(now: number, dtMs: number, bass: number, mid: number, high: number, timeline: TimelineFrame | null, density: number) {
+    // Seed the EMAs from the first frame instead of ramping up from silence
+    if (!this.primed) {
+      this.bassEma = this.prevBass = bass;
+      this.midEma = this.prevMid = mid;
+      this.highEma = this.prevHigh = high;
+      this.primed = true;
+      return;
+    }
+
     // Update EMAs per band
-    const smoothing = 0.18;
+    const smoothing = this.params.smoothing;
     this.bassEma += (bass - this.bassEma) * smoothing;
     this.midEma += (mid - this.midEma) * smoothing;
     this.highEma += (high - this.highEma) * smoothing;
@@ -346,9 +461,12 @@ export class JourneyScene {
     const midAccel = mid - this.midEma;
     const highAccel = high - this.highEma;
 
+    // With a pre-analysed beat grid the tempo is known up front
+    if (timeline) this.bpmEstimate = timeline.tempo;
+
     // 쿨다운
-    const kickCooldown = (60000 / this.bpmEstimate) / 3.5;
-    const otherCooldown = (60000 / this.bpmEstimate) / 4.5;
+    const kickCooldown = (60000 / this.bpmEstimate) / this.params.kickDivisor;
+    const otherCooldown = (60000 / this.bpmEstimate) / this.params.otherDivisor;
     if (this.cooldown > 0) this.cooldown -= dtMs;
 
     // KICK DRUM - 다층 감지 (초반/중반/후반 모두 대응)
@@ -356,13 +474,16 @@ export class JourneyScene {
     const condition2 = bass > this.prevBass * 1.15 && bass > 0.18 && bassAccel > 0.015;  // 15% 점프
     const condition3 = bass > 0.3 && bassAccel > 0.01 && bass > this.prevBass;  // 후반 클라이막스
     
-    const isStrongKick = condition1 || condition2 || condition3;
-
-    if (isStrongKick && this.cooldown <= 0) {
-      const cx = (Math.random() * 1.4 - 0.7);
-      const cy = (Math.random() * 1.4 - 0.7);
-      this.spawnRipple(cx, cy, bass);
-      this.updateTempo(now);
+    // Grid beats land on the real beat positions, so they don't wait out a mid/high cooldown.
+    const isStrongKick = timeline
+      ? timeline.beat && bass > 0.12
+      : condition1 || condition2 || condition3;
+
+    if (isStrongKick && (timeline || this.cooldown <= 0) && this.flashGuard.allow(now)) {
+      const cx = (this.driver.random() * 1.4 - 0.7);
+      const cy = (this.driver.random() * 1.4 - 0.7);
+      this.spawnHit(cx, cy, bass, density);
+      if (!timeline) this.updateTempo(now);
       this.cooldown = kickCooldown;
     }
     // MID (스네어/클랩)
@@ -370,10 +491,10 @@ export class JourneyScene {
       const isMidHit = (midAccel > 0.04 && mid > 0.12) ||
                        (mid > this.prevMid * 1.25 && mid > 0.15 && midAccel > 0.02);
       
-      if (isMidHit) {
-        const cx = (Math.random() * 1.6 - 0.8);
-        const cy = (Math.random() * 1.6 - 0.8);
-        this.spawnRipple(cx, cy, mid);
+      if (isMidHit && this.flashGuard.allow(now)) {
+        const cx = (this.driver.random() * 1.6 - 0.8);
+        const cy = (this.driver.random() * 1.6 - 0.8);
+        this.spawnHit(cx, cy, mid, density);
         this.cooldown = otherCooldown;
       }
     }
@@ -382,10 +503,10 @@ export class JourneyScene {
       const isHighHit = (highAccel > 0.045 && high > 0.12) ||
                         (high > this.prevHigh * 1.3 && high > 0.15 && highAccel > 0.025);
       
-      if (isHighHit) {
-        const cx = (Math.random() * 1.8 - 0.9);
-        const cy = (Math.random() * 1.8 - 0.9);
-        this.spawnRipple(cx, cy, high);
+      if (isHighHit && this.flashGuard.allow(now)) {
+        const cx = (this.driver.random() * 1.8 - 0.9);
+        const cy = (this.driver.random() * 1.8 - 0.9);
+        this.spawnHit(cx, cy, high, density);
         this.cooldown = otherCooldown * 0.7;
       }
     }
@@ -395,6 +516,15 @@ export class JourneyScene {
     this.prevHigh = high;
   }
 
+  private resetBeatHistory() {
+    this.primed = false;
+    this.cooldown = 0;
+    this.beatIntervals = [];
+    this.lastBeatTime = 0;
+    this.fluxHistory = [];
+    this.energyHistory = [];
+  }
+
   private updateTempo(now: number) {
     if (this.lastBeatTime > 0) {
       const interval = now - this.lastBeatTime;
@@ -420,21 +550,39 @@ export class JourneyScene {
     this.lastBeatTime = now;
   }
 
-  private handleResize = () => {
-    const dpr = Math.min(2, window.devicePixelRatio || 1);
-    const { clientWidth, clientHeight } = this.canvas.parentElement || this.canvas;
+  public setSize(width: number, height: number, dpr = 1) {
     this.renderer.setPixelRatio(dpr);
-    this.renderer.setSize(clientWidth, clientHeight, false);
+    this.renderer.setSize(width, height, false);
     if (this.rUniforms) this.rUniforms.u_dpr.value = dpr;
+  }
+
+  private handleResize = () => {
+    const { clientWidth, clientHeight } = this.canvas.parentElement || this.canvas;
+    this.setSize(clientWidth, clientHeight, renderDpr(this.quality) * this.renderScale);
   };
 
+  public pause() {
+    if (this.animationFrameId) this.driver.cancel(this.animationFrameId);
+    this.animationFrameId = 0;
+  }
+
+  public resume() {
+    if (!this.animationFrameId) this.animate();
+  }
+
   public destroy() {
-    if (this.animationFrameId) cancelAnimationFrame(this.animationFrameId);
+    this.pause();
     window.removeEventListener('resize', this.handleResize);
+    this.canvas.removeEventListener('webglcontextlost', this.handleContextLost);
+    this.canvas.removeEventListener('webglcontextrestored', this.handleContextRestored);
+    this.disposeResources();
+    if (!this.sharedRenderer) this.renderer?.dispose();
+  }
+
+  private disposeResources() {
     this.bgMesh?.geometry.dispose();
     (this.bgMesh?.material as THREE.Material)?.dispose();
     this.rGeometry?.dispose();
     (this.rPoints?.material as THREE.Material)?.dispose();
-    this.renderer?.dispose();
   }
 }
\ No newline at end of file
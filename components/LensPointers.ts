@@ -0,0 +1,195 @@
+import type { SpectrumBand } from './SpectrumDisplay';
+
+// Pointer input for the data view's lenses. A mouse hovers one lens and clicks into the scene.
+// Touch and pen press to open a lens and drag it; a long press or a double tap enters the
+// scene, and two fingers show two lenses whose spread sets the radius like a pinch.
+
+export interface Lens {
+  pointerId: number | null;  // null while the slot is free
+  mouse: boolean;            // hover lens; touch and pen lenses snap to the column under the finger
+  isHovering: boolean;
+  mouseX: number;
+  mouseY: number;
+  hoverIndex: number;
+  band: SpectrumBand | null;
+  targetX: number; targetY: number; targetR: number;
+  posX: number; posY: number; posR: number;
+  velX: number; velY: number; velR: number;
+  alpha: number;
+}
+
+export interface LensSet {
+  lenses: Lens[];
+  radiusScale: number;  // set by pinching, kept until the next pinch
+}
+
+export const MAX_LENSES = 2;
+
+const LONG_PRESS_MS = 500;
+const DOUBLE_TAP_MS = 300;
+const TAP_SLOP_PX = 10;     // movement that still counts as holding still
+const DOUBLE_TAP_PX = 40;   // how close the second tap has to land
+const MIN_RADIUS_SCALE = 0.5;
+const MAX_RADIUS_SCALE = 2.5;
+
+const createLens = (): Lens => ({
+  pointerId: null, mouse: false,
+  isHovering: false, mouseX: 0, mouseY: 0, hoverIndex: -1, band: null,
+  targetX: 0, targetY: 0, targetR: 0,
+  posX: 0, posY: 0, posR: 0,
+  velX: 0, velY: 0, velR: 0,
+  alpha: 0,
+});
+
+export const createLensSet = (): LensSet => ({
+  lenses: Array.from({ length: MAX_LENSES }, createLens),
+  radiusScale: 1,
+});
+
+// The lens's spring, once per frame: it chases its target and fades in while it has a band.
+export const stepLens = (lens: Lens, shown: boolean) => {
+  const k = 0.06, d = 0.7;
+  lens.velX = (lens.velX + (lens.targetX - lens.posX) * k) * d; lens.posX += lens.velX;
+  lens.velY = (lens.velY + (lens.targetY - lens.posY) * k) * d; lens.posY += lens.velY;
+  lens.velR = (lens.velR + (lens.targetR - lens.posR) * k) * d; lens.posR += lens.velR;
+  lens.alpha += ((shown ? 1 : 0) - lens.alpha) * 0.15;
+};
+
+interface Press {
+  lens: Lens;
+  downX: number;
+  downY: number;
+  downAt: number;
+  moved: boolean;
+  timer: number;
+}
+
+// Wires pointer events on `canvas` to the lens slots. `onEnter` gets the lens that asked to
+// open the scene; the caller decides whether it's over a band. Returns the unbind function.
+export const bindLensPointers = (canvas: HTMLCanvasElement, set: LensSet, onEnter: (lens: Lens) => void) => {
+  const presses = new Map<number, Press>();
+  let pinch: { startDistance: number; startScale: number } | null = null;
+  let lastTap = { at: -Infinity, x: 0, y: 0 };
+  let lastDownType = '';
+
+  const local = (e: PointerEvent): [number, number] => {
+    const rect = canvas.getBoundingClientRect();
+    return [e.clientX - rect.left, e.clientY - rect.top];
+  };
+
+  const claim = (pointerId: number, mouse: boolean): Lens | undefined => {
+    const lens = set.lenses.find(l => l.pointerId === pointerId) ?? set.lenses.find(l => l.pointerId === null);
+    if (lens) {
+      lens.pointerId = pointerId;
+      lens.mouse = mouse;
+    }
+    return lens;
+  };
+
+  // A lens that was closed springs open from the pointer rather than flying in from its last spot.
+  const place = (lens: Lens, x: number, y: number) => {
+    if (!lens.isHovering && lens.alpha < 0.05) {
+      lens.posX = x; lens.posY = y; lens.posR = 0;
+      lens.velX = lens.velY = lens.velR = 0;
+    }
+    lens.isHovering = true;
+    lens.mouseX = x;
+    lens.mouseY = y;
+  };
+
+  const release = (lens: Lens) => {
+    lens.pointerId = null;
+    lens.isHovering = false;
+    lens.hoverIndex = -1;
+  };
+
+  const spread = () => {
+    const [a, b] = [...presses.values()];
+    return Math.hypot(a.lens.mouseX - b.lens.mouseX, a.lens.mouseY - b.lens.mouseY);
+  };
+
+  const onDown = (e: PointerEvent) => {
+    lastDownType = e.pointerType;
+    if (e.pointerType === 'mouse') return;
+    const lens = claim(e.pointerId, false);
+    if (!lens) return;
+    canvas.setPointerCapture(e.pointerId);
+    const [x, y] = local(e);
+    place(lens, x, y);
+    const press: Press = { lens, downX: x, downY: y, downAt: e.timeStamp, moved: false, timer: 0 };
+    press.timer = window.setTimeout(() => { if (!press.moved && !pinch) onEnter(lens); }, LONG_PRESS_MS);
+    presses.set(e.pointerId, press);
+    if (presses.size === 2) {
+      pinch = { startDistance: Math.max(1, spread()), startScale: set.radiusScale };
+      presses.forEach(p => clearTimeout(p.timer));
+    }
+  };
+
+  const onMove = (e: PointerEvent) => {
+    const [x, y] = local(e);
+    if (e.pointerType === 'mouse') {
+      const lens = claim(e.pointerId, true);
+      if (lens) place(lens, x, y);
+      return;
+    }
+    const press = presses.get(e.pointerId);
+    if (!press) return;
+    place(press.lens, x, y);
+    if (!press.moved && Math.hypot(x - press.downX, y - press.downY) > TAP_SLOP_PX) {
+      press.moved = true;
+      clearTimeout(press.timer);
+    }
+    if (pinch && presses.size === 2) {
+      const scale = pinch.startScale * (spread() / pinch.startDistance);
+      set.radiusScale = Math.max(MIN_RADIUS_SCALE, Math.min(MAX_RADIUS_SCALE, scale));
+    }
+  };
+
+  const onUp = (e: PointerEvent) => {
+    const press = presses.get(e.pointerId);
+    if (!press) return;
+    clearTimeout(press.timer);
+    presses.delete(e.pointerId);
+    const pinched = pinch !== null;
+    if (presses.size < 2) pinch = null;
+
+    const tap = e.type === 'pointerup' && !press.moved && !pinched && e.timeStamp - press.downAt < LONG_PRESS_MS;
+    if (tap) {
+      const second = e.timeStamp - lastTap.at < DOUBLE_TAP_MS && Math.hypot(press.downX - lastTap.x, press.downY - lastTap.y) < DOUBLE_TAP_PX;
+      lastTap = second ? { at: -Infinity, x: 0, y: 0 } : { at: e.timeStamp, x: press.downX, y: press.downY };
+      if (second) onEnter(press.lens);
+    }
+    release(press.lens);
+  };
+
+  const onLeave = (e: PointerEvent) => {
+    if (e.pointerType !== 'mouse') return;
+    const lens = set.lenses.find(l => l.pointerId === e.pointerId);
+    if (lens) release(lens);
+  };
+
+  // Taps also fire click; only the mouse enters that way.
+  const onClick = () => {
+    if (lastDownType !== 'mouse') return;
+    const lens = set.lenses.find(l => l.mouse && l.isHovering);
+    if (lens) onEnter(lens);
+  };
+
+  canvas.addEventListener('pointerdown', onDown);
+  canvas.addEventListener('pointermove', onMove);
+  canvas.addEventListener('pointerup', onUp);
+  canvas.addEventListener('pointercancel', onUp);
+  canvas.addEventListener('pointerleave', onLeave);
+  canvas.addEventListener('click', onClick);
+  // Rebinding drops the presses, so a finger still down would hold its lens open for good.
+  return () => {
+    presses.forEach(p => clearTimeout(p.timer));
+    set.lenses.forEach(l => { if (l.pointerId !== null) release(l); });
+    canvas.removeEventListener('pointerdown', onDown);
+    canvas.removeEventListener('pointermove', onMove);
+    canvas.removeEventListener('pointerup', onUp);
+    canvas.removeEventListener('pointercancel', onUp);
+    canvas.removeEventListener('pointerleave', onLeave);
+    canvas.removeEventListener('click', onClick);
+  };
+};
@@ -0,0 +1,48 @@
+export interface LiveInput {
+  node: MediaStreamAudioSourceNode;
+  stream: MediaStream;
+  deviceId: string;
+  stop: () => void;
+}
+
+export const isLiveInputSupported = (): boolean =>
+  typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+// Labels are only filled in once the user has granted microphone access.
+export const listInputDevices = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(d => d.kind === 'audioinput');
+};
+
+// A line for the user when the input can't be opened.
+export const describeLiveInputError = (e: unknown): string => {
+  const name = e instanceof DOMException ? e.name : '';
+  if (name === 'NotAllowedError' || name === 'SecurityError') return 'Microphone access was blocked. Allow it in the browser to use live input.';
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') return 'No audio input device was found.';
+  if (name === 'NotReadableError') return 'The audio input is in use by another app or could not be started.';
+  return `Live input could not be opened${e instanceof Error && e.message ? `: ${e.message}` : '.'}`;
+};
+
+export const openLiveInput = async (ctx: AudioContext, deviceId?: string): Promise<LiveInput> => {
+  // Voice processing flattens music, so ask for the raw signal.
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: {
+      deviceId: deviceId ? { exact: deviceId } : undefined,
+      echoCancellation: false,
+      noiseSuppression: false,
+      autoGainControl: false,
+    },
+  });
+  const node = ctx.createMediaStreamSource(stream);
+  const [audioTrack] = stream.getAudioTracks();
+  return {
+    node,
+    stream,
+    deviceId: audioTrack?.getSettings().deviceId ?? deviceId ?? '',
+    stop: () => {
+      node.disconnect();
+      stream.getTracks().forEach(t => t.stop());
+    },
+  };
+};
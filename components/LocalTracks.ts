@@ -0,0 +1,70 @@
+import type { Track } from '../types';
+import { hslToHex } from './PaletteBlend';
+
+const AUDIO_EXT = /\.(mp3|wav|ogg|oga|flac)$/i;
+const LYRICS_EXT = /\.lrc$/i;
+
+const MOOD_WORDS = [
+  ['ember', 'glow', 'heat'],
+  ['drift', 'haze', 'dusk'],
+  ['bloom', 'breeze', 'light'],
+  ['tide', 'depth', 'calm'],
+  ['night', 'pulse', 'neon'],
+];
+
+// FNV-1a, good enough to spread file names over the hue wheel.
+const hashString = (str: string): number => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < str.length; i++) {
+    h ^= str.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+export const isSupportedAudioFile = (file: File): boolean =>
+  AUDIO_EXT.test(file.name) || file.type.startsWith('audio/');
+
+export const isLyricsFile = (file: File): boolean => LYRICS_EXT.test(file.name);
+
+// Dropped together, "song.mp3" picks up "song.lrc".
+export const lyricsKey = (file: File): string => file.name.replace(AUDIO_EXT, '').replace(LYRICS_EXT, '').toLowerCase();
+
+export const generatePalette = (seed: string): string[] => {
+  const hash = hashString(seed);
+  const hue = hash % 360;
+  const spread = 20 + (hash >>> 9) % 40;
+  return [
+    hslToHex(hue, 0.65, 0.45),
+    hslToHex((hue + spread) % 360, 0.7, 0.55),
+    hslToHex((hue + spread * 2) % 360, 0.6, 0.65),
+    hslToHex((hue + 180) % 360, 0.55, 0.6),
+  ];
+};
+
+export const generateMood = (seed: string): string => {
+  const hash = hashString(seed);
+  const words = MOOD_WORDS[hash % MOOD_WORDS.length];
+  return `local • ${words[(hash >>> 4) % words.length]}`;
+};
+
+// Local files play from object URLs; the caller revokes them with releaseLocalTrack.
+// Palette and mood are placeholders until the track's audio has been classified.
+export const createLocalTrack = (file: File, lyrics?: File): Track => {
+  const title = file.name.replace(AUDIO_EXT, '');
+  return {
+    id: `local-${hashString(`${file.name}:${file.size}:${file.lastModified}`).toString(36)}`,
+    title,
+    file: file.name,
+    url: URL.createObjectURL(file),
+    palette: generatePalette(title),
+    mood: generateMood(title),
+    lyrics: lyrics && URL.createObjectURL(lyrics),
+    provisional: true,
+  };
+};
+
+export const releaseLocalTrack = (track: Track) => {
+  if (track.url?.startsWith('blob:')) URL.revokeObjectURL(track.url);
+  if (track.lyrics?.startsWith('blob:')) URL.revokeObjectURL(track.lyrics);
+};
@@ -0,0 +1,154 @@
+import { indexAtOrBefore } from './TrackAnalysis';
+
+// Time-synced lyrics from LRC files. Plain LRC times whole lines ("[01:02.50]Some line");
+// enhanced LRC also times words inside them ("[01:02.50]<01:02.50>Some <01:02.90>line").
+// A line with several time tags repeats at each, and an empty line ends the one before it.
+
+export interface LyricWord {
+  time: number;  // s
+  end: number;
+  text: string;  // includes the trailing space, so words join back into the line
+}
+
+export interface LyricLine {
+  time: number;  // s
+  end: number;
+  text: string;
+  words: LyricWord[] | null;  // null for plain LRC
+}
+
+export interface Lyrics {
+  lines: LyricLine[];
+  times: number[];  // line start times, for lookup
+}
+
+export type LyricsPlacement = 'top' | 'center' | 'bottom';
+// Sweep fills the line left to right as it's sung, word lights each word in turn, line lights it all.
+export type LyricsHighlight = 'sweep' | 'word' | 'line';
+
+export interface LyricsSettings {
+  visible: boolean;
+  placement: LyricsPlacement;
+  highlight: LyricsHighlight;
+  fade: boolean;  // fade lines in and out rather than cutting
+}
+
+export const DEFAULT_LYRICS_SETTINGS: LyricsSettings = {
+  visible: true,
+  placement: 'bottom',
+  highlight: 'sweep',
+  fade: true,
+};
+
+// The last line has nothing after it to end it.
+const LAST_LINE_S = 6;
+
+const STORAGE_KEY = 'sound-of-me:lyrics';
+
+const LINE_TAG = /^\[(\d+):(\d{1,2}(?:[.:]\d{1,3})?)\]/;
+const WORD_TAG = /<(\d+):(\d{1,2}(?:[.:]\d{1,3})?)>/;
+const OFFSET_TAG = /^\[offset:\s*([+-]?\d+)\s*\]/i;
+
+const toSeconds = (min: string, sec: string) => Number(min) * 60 + Number(sec.replace(':', '.'));
+
+// Splits enhanced-LRC text into timed words. Text before the first tag starts with the line;
+// a tag with nothing after it only ends the word before it.
+const parseWords = (body: string, lineTime: number, offset: number): { text: string; words: LyricWord[] | null } => {
+  const parts = body.split(WORD_TAG);
+  if (parts.length === 1) return { text: body.trim(), words: null };
+  const words: LyricWord[] = [];
+  let time = lineTime;
+  for (let i = 0; i < parts.length; i += 3) {
+    const text = parts[i];
+    if (text.trim()) {
+      if (words.length) words[words.length - 1].end = time;
+      words.push({ time, end: time, text });
+    } else if (words.length) {
+      words[words.length - 1].end = time;
+    }
+    if (i + 2 < parts.length) time = toSeconds(parts[i + 1], parts[i + 2]) - offset;
+  }
+  if (words.length) {
+    words[0].text = words[0].text.trimStart();
+    words[words.length - 1].text = words[words.length - 1].text.trimEnd();
+  }
+  return { text: words.map(w => w.text).join(''), words: words.length ? words : null };
+};
+
+export const parseLrc = (source: string): Lyrics => {
+  const raw = source.split(/\r?\n/);
+  // [offset:+250] shows the lyrics 250 ms earlier.
+  const offsetLine = raw.find(l => OFFSET_TAG.test(l.trim()));
+  const offset = offsetLine ? Number(offsetLine.trim().match(OFFSET_TAG)![1]) / 1000 : 0;
+
+  // `shift` moves word times along with a line that repeats at a later tag.
+  const entries: { time: number; body: string; shift: number }[] = [];
+  for (const line of raw) {
+    let rest = line.trim();
+    const times: number[] = [];
+    let m: RegExpMatchArray | null;
+    while ((m = rest.match(LINE_TAG))) {
+      times.push(toSeconds(m[1], m[2]) - offset);
+      rest = rest.slice(m[0].length);
+    }
+    for (const time of times) entries.push({ time: Math.max(0, time), body: rest, shift: time - times[0] });
+  }
+  entries.sort((a, b) => a.time - b.time);
+
+  const lines: LyricLine[] = [];
+  entries.forEach((entry, i) => {
+    const { text, words } = parseWords(entry.body, entry.time, offset - entry.shift);
+    if (!text) return;
+    const end = entries[i + 1]?.time ?? entry.time + LAST_LINE_S;
+    // The last word runs to the end of the line unless a closing tag ended it.
+    if (words) {
+      const last = words[words.length - 1];
+      if (last.end <= last.time) last.end = end;
+    }
+    lines.push({ time: entry.time, end, text, words });
+  });
+  return { lines, times: lines.map(l => l.time) };
+};
+
+// Index of the line sung at `t`, or -1 between lines.
+export const lineIndexAt = (lyrics: Lyrics, t: number): number => {
+  const i = indexAtOrBefore(lyrics.times, t);
+  return i >= 0 && t < lyrics.lines[i].end ? i : -1;
+};
+
+// The line after `t`, or -1 once the last one has started.
+export const nextLineIndex = (lyrics: Lyrics, t: number): number => {
+  const i = indexAtOrBefore(lyrics.times, t) + 1;
+  return i < lyrics.lines.length ? i : -1;
+};
+
+export const loadLyrics = async (url: string): Promise<Lyrics> => {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Lyrics ${url} could not be fetched (HTTP ${res.status})`);
+  return parseLrc(await res.text());
+};
+
+const isPlacement = (v: unknown): v is LyricsPlacement => v === 'top' || v === 'center' || v === 'bottom';
+const isHighlight = (v: unknown): v is LyricsHighlight => v === 'sweep' || v === 'word' || v === 'line';
+
+export const loadLyricsSettings = (): LyricsSettings => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (typeof raw !== 'object' || raw === null) return DEFAULT_LYRICS_SETTINGS;
+    const d = DEFAULT_LYRICS_SETTINGS;
+    return {
+      visible: typeof raw.visible === 'boolean' ? raw.visible : d.visible,
+      placement: isPlacement(raw.placement) ? raw.placement : d.placement,
+      highlight: isHighlight(raw.highlight) ? raw.highlight : d.highlight,
+      fade: typeof raw.fade === 'boolean' ? raw.fade : d.fade,
+    };
+  } catch {
+    return DEFAULT_LYRICS_SETTINGS;
+  }
+};
+
+export const saveLyricsSettings = (settings: LyricsSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch { /* private mode: keep it for the session */ }
+};
@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import type { LyricsHighlight, LyricsPlacement, LyricsSettings } from './Lyrics';
+
+interface LyricsControlsProps {
+  value: LyricsSettings;
+  onChange: (value: LyricsSettings) => void;
+}
+
+const PLACEMENTS: { id: LyricsPlacement; label: string }[] = [
+  { id: 'top', label: 'Top' },
+  { id: 'center', label: 'Middle' },
+  { id: 'bottom', label: 'Bottom' },
+];
+
+const HIGHLIGHTS: { id: LyricsHighlight; label: string; title: string }[] = [
+  { id: 'sweep', label: 'Sweep', title: 'Fill each word as it is sung' },
+  { id: 'word', label: 'Word', title: 'Light each word when it starts' },
+  { id: 'line', label: 'Line', title: 'Light the whole line' },
+];
+
+const pillClass = "text-xs border rounded-full px-3 py-1.5 bg-[rgba(10,10,10,0.7)] backdrop-blur-md cursor-pointer transition-colors";
+const option = (active: boolean) =>
+  `flex-1 px-2 py-1 cursor-pointer transition-colors ${active ? 'text-[#eaf6ff] bg-[rgba(58,166,255,0.15)]' : 'text-zinc-400 hover:text-white'}`;
+
+const LyricsControls: React.FC<LyricsControlsProps> = ({ value, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const set = (patch: Partial<LyricsSettings>) => onChange({ ...value, ...patch });
+
+  return (
+    <div className="relative flex">
+      <button
+        onClick={() => set({ visible: !value.visible })}
+        title={value.visible ? 'Hide the lyrics' : 'Show the lyrics'}
+        aria-pressed={value.visible}
+        className={`${pillClass} rounded-r-none border-r-0 ${value.visible ? 'text-[#eaf6ff] border-[#3aa6ff]' : 'text-zinc-300 border-zinc-800 hover:text-white'}`}
+      >
+        ♪ Lyrics
+      </button>
+      <button
+        onClick={() => setOpen(o => !o)}
+        title="Lyrics placement and style"
+        className={`${pillClass} rounded-l-none pl-2 ${value.visible ? 'text-[#eaf6ff] border-[#3aa6ff]' : 'text-zinc-300 border-zinc-800 hover:text-white'}`}
+      >
+        {open ? '▴' : '▾'}
+      </button>
+      {open && (
+        <div className="absolute right-0 top-full mt-2 w-56 flex flex-col gap-3 p-3 rounded-xl border border-zinc-800 bg-[rgba(15,15,15,0.9)] backdrop-blur-md text-xs text-zinc-300">
+          <div className="flex flex-col gap-1">
+            <span className="text-zinc-500">Placement</span>
+            <div className="flex rounded-full border border-zinc-800 overflow-hidden">
+              {PLACEMENTS.map(p => (
+                <button key={p.id} onClick={() => set({ placement: p.id })} aria-pressed={value.placement === p.id} className={option(value.placement === p.id)}>
+                  {p.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="flex flex-col gap-1">
+            <span className="text-zinc-500">Highlight</span>
+            <div className="flex rounded-full border border-zinc-800 overflow-hidden">
+              {HIGHLIGHTS.map(h => (
+                <button key={h.id} onClick={() => set({ highlight: h.id })} title={h.title} aria-pressed={value.highlight === h.id} className={option(value.highlight === h.id)}>
+                  {h.label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <label className="flex items-center gap-2 cursor-pointer">
+            <input type="checkbox" checked={value.fade} onChange={(e) => set({ fade: e.target.checked })} className="accent-zinc-300" />
+            Fade lines in and out
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LyricsControls;
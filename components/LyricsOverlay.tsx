@@ -0,0 +1,114 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { getAudioFeatures } from './AudioFeatures';
+import { LumaLimiter, motionScale } from './MotionSafety';
+import { lineIndexAt, nextLineIndex } from './Lyrics';
+import type { Lyrics, LyricsSettings, LyricsPlacement } from './Lyrics';
+
+interface LyricsOverlayProps {
+  lyrics: Lyrics;
+  audio: HTMLAudioElement | null;
+  analyser: AnalyserNode | null;
+  palette: string[];
+  settings: LyricsSettings;
+}
+
+const FADE_S = 0.3;
+// The next line shows dimmed this long before it starts.
+const LEAD_IN_S = 1.5;
+const LIT = '#ffffff';
+const UNLIT = 'rgba(255,255,255,0.35)';
+
+const PLACEMENT_CLASS: Record<LyricsPlacement, string> = {
+  top: 'top-20',
+  center: 'top-1/2 -translate-y-1/2',
+  bottom: 'bottom-12',
+};
+
+// Lit up to `p` (0..1) from the left; the text is clipped out of the gradient.
+const fill = (p: number): React.CSSProperties => ({
+  backgroundImage: `linear-gradient(90deg, ${LIT} ${p * 100}%, ${UNLIT} ${p * 100}%)`,
+  WebkitBackgroundClip: 'text',
+  backgroundClip: 'text',
+  color: 'transparent',
+});
+
+const progress = (t: number, from: number, to: number) => (to > from ? Math.max(0, Math.min(1, (t - from) / (to - from))) : 1);
+
+// Back-to-back lines swap in place; fading them would flicker.
+const fadesIn = (lyrics: Lyrics, i: number, settings: LyricsSettings) =>
+  settings.fade && lyrics.lines[i - 1]?.end !== lyrics.lines[i].time;
+const fadesOut = (lyrics: Lyrics, i: number, settings: LyricsSettings) =>
+  settings.fade && lyrics.lines[i + 1]?.time !== lyrics.lines[i].end;
+
+// Lyrics over the scene, kept in step with the <audio> element's clock so seeking just works.
+// React renders a new line when it changes; the highlight, fade and the pulse with the bass are
+// set on the elements each frame.
+const LyricsOverlay: React.FC<LyricsOverlayProps> = ({ lyrics, audio, analyser, palette, settings }) => {
+  const [current, setCurrent] = useState(-1);
+  const [upcoming, setUpcoming] = useState(-1);
+  const blockRef = useRef<HTMLDivElement>(null);
+  const lineRef = useRef<HTMLDivElement>(null);
+  const accent = palette[0] ?? LIT;
+
+  useEffect(() => {
+    if (!audio) return;
+    const glow = new LumaLimiter();
+    let last = -1;
+    let frameId = requestAnimationFrame(function tick(now) {
+      frameId = requestAnimationFrame(tick);
+      const dt = last >= 0 ? (now - last) / 1000 : 0;
+      last = now;
+      const t = audio.currentTime;
+      const i = lineIndexAt(lyrics, t);
+      const n = nextLineIndex(lyrics, t);
+      setCurrent(i);
+      setUpcoming(n >= 0 && lyrics.lines[n].time - t < LEAD_IN_S ? n : -1);
+
+      const block = blockRef.current;
+      if (block && analyser) {
+        const frame = getAudioFeatures(analyser).sample();
+        const g = glow.step(frame.rms, dt);
+        block.style.transform = `scale(${1 + frame.bass * 0.06 * motionScale()})`;
+        block.style.filter = `drop-shadow(0 0 ${4 + g * 20}px ${accent})`;
+      }
+
+      // Until React has committed the new line the element still shows the old one.
+      const el = lineRef.current;
+      if (i < 0 || !el || el.dataset.index !== String(i)) return;
+      const line = lyrics.lines[i];
+      el.style.opacity = String(Math.min(
+        fadesIn(lyrics, i, settings) ? progress(t, line.time, line.time + FADE_S) : 1,
+        fadesOut(lyrics, i, settings) ? 1 - progress(t, line.end - FADE_S, line.end) : 1,
+      ));
+      const spans = el.children as HTMLCollectionOf<HTMLElement>;
+      const parts = line.words ?? [line];
+      for (let k = 0; k < parts.length && k < spans.length; k++) {
+        const w = parts[k];
+        const p = settings.highlight === 'line' ? 1
+          : settings.highlight === 'word' ? (t >= w.time ? 1 : 0)
+          : progress(t, w.time, w.end);
+        Object.assign(spans[k].style, fill(p));
+      }
+    });
+    return () => cancelAnimationFrame(frameId);
+  }, [lyrics, audio, analyser, accent, settings]);
+
+  if (!settings.visible) return null;
+  const line = current >= 0 ? lyrics.lines[current] : null;
+  const next = upcoming >= 0 ? lyrics.lines[upcoming] : null;
+
+  return (
+    <div className={`absolute inset-x-0 ${PLACEMENT_CLASS[settings.placement]} flex flex-col items-center gap-2 px-8 text-center pointer-events-none`}>
+      <div ref={blockRef} className="will-change-transform" aria-live="polite">
+        {line && (
+          <div ref={lineRef} key={current} data-index={current} className="text-2xl md:text-4xl font-semibold leading-tight" style={{ opacity: fadesIn(lyrics, current, settings) ? 0 : 1 }}>
+            {(line.words ?? [line]).map((w, k) => <span key={k} style={fill(0)}>{w.text}</span>)}
+          </div>
+        )}
+      </div>
+      {next && next !== line && <div className="text-base md:text-lg text-white/40">{next.text}</div>}
+    </div>
+  );
+};
+
+export default LyricsOverlay;
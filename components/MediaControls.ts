@@ -0,0 +1,128 @@
+import { useEffect, useRef } from 'react';
+import type { Track } from '../types';
+
+// Keyboard shortcuts and the Media Session (OS media keys, lock screen) both drive the same
+// App callbacks. Handlers are read through refs so the listeners are registered only once.
+
+export interface PlaybackControls {
+  onTogglePlay: () => void;
+  onPlay: () => void;
+  onPause: () => void;
+  onNext: () => void;
+  onPrev: () => void;
+  onSeekBy: (seconds: number) => void;
+  onSeekTo: (seconds: number) => void;
+}
+
+export interface ShortcutControls extends PlaybackControls {
+  onVolumeBy: (delta: number) => void;
+  onToggleMute: () => void;
+  onEnterScene: () => void;
+  onLeaveScene: () => void;
+  onToggleFullscreen: () => void;
+}
+
+export const SEEK_STEP_S = 5;
+export const VOLUME_STEP = 0.05;
+
+const isTypingTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName));
+
+export const toggleFullscreen = () => {
+  if (document.fullscreenElement) document.exitFullscreen().catch(() => {});
+  else document.documentElement.requestFullscreen?.().catch(() => {});
+};
+
+export const useKeyboardShortcuts = (controls: ShortcutControls, enabled: boolean) => {
+  const ref = useRef(controls);
+  ref.current = controls;
+
+  useEffect(() => {
+    if (!enabled) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || e.ctrlKey || e.metaKey || e.altKey || isTypingTarget(e.target)) return;
+      const c = ref.current;
+      switch (e.key) {
+        case ' ':
+        case 'k': case 'K': c.onTogglePlay(); break;
+        case 'ArrowRight': if (e.shiftKey) c.onNext(); else c.onSeekBy(SEEK_STEP_S); break;
+        case 'ArrowLeft': if (e.shiftKey) c.onPrev(); else c.onSeekBy(-SEEK_STEP_S); break;
+        case 'n': case 'N': c.onNext(); break;
+        case 'p': case 'P': c.onPrev(); break;
+        case 'ArrowUp': c.onVolumeBy(VOLUME_STEP); break;
+        case 'ArrowDown': c.onVolumeBy(-VOLUME_STEP); break;
+        case 'm': case 'M': c.onToggleMute(); break;
+        case 'Enter':
+          if (e.target instanceof HTMLButtonElement) return;  // let a focused button take it
+          c.onEnterScene();
+          break;
+        case 'Escape': c.onLeaveScene(); break;
+        case 'f': case 'F': c.onToggleFullscreen(); break;
+        default: return;
+      }
+      // Stops Space from also clicking a focused button and arrows from scrolling.
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [enabled]);
+};
+
+// `audio` is null for live input, which has no position to seek in.
+export const useMediaSession = (track: Track, isPlaying: boolean, audio: HTMLAudioElement | null, controls: PlaybackControls) => {
+  const ref = useRef(controls);
+  ref.current = controls;
+  const session = typeof navigator !== 'undefined' && 'mediaSession' in navigator ? navigator.mediaSession : null;
+
+  useEffect(() => {
+    if (!session) return;
+    session.metadata = new MediaMetadata({
+      title: track.title,
+      artist: track.artist ?? '',
+      album: track.mood,
+      artwork: track.artwork ? [{ src: track.artwork }] : [],
+    });
+  }, [session, track]);
+
+  useEffect(() => {
+    if (session) session.playbackState = isPlaying ? 'playing' : 'paused';
+  }, [session, isPlaying]);
+
+  useEffect(() => {
+    if (!session) return;
+    const seekable = !!audio;
+    const handlers: [MediaSessionAction, MediaSessionActionHandler | null][] = [
+      ['play', () => ref.current.onPlay()],
+      ['pause', () => ref.current.onPause()],
+      ['nexttrack', () => ref.current.onNext()],
+      ['previoustrack', () => ref.current.onPrev()],
+      ['seekforward', seekable ? (d) => ref.current.onSeekBy(d.seekOffset ?? SEEK_STEP_S) : null],
+      ['seekbackward', seekable ? (d) => ref.current.onSeekBy(-(d.seekOffset ?? SEEK_STEP_S)) : null],
+      ['seekto', seekable ? (d) => { if (d.seekTime !== undefined) ref.current.onSeekTo(d.seekTime); } : null],
+    ];
+    for (const [action, handler] of handlers) {
+      // Browsers throw for actions they don't know.
+      try { session.setActionHandler(action, handler); } catch { /* unsupported */ }
+    }
+    return () => {
+      for (const [action] of handlers) {
+        try { session.setActionHandler(action, null); } catch { /* unsupported */ }
+      }
+    };
+  }, [session, audio]);
+
+  // Lets the lock screen draw a progress bar.
+  useEffect(() => {
+    if (!session?.setPositionState || !audio) return;
+    const update = () => {
+      if (!isFinite(audio.duration)) return;
+      try {
+        session.setPositionState({ duration: audio.duration, position: Math.min(audio.currentTime, audio.duration), playbackRate: audio.playbackRate });
+      } catch { /* position outside duration while loading */ }
+    };
+    const events = ['loadedmetadata', 'seeked', 'play', 'pause', 'ratechange'];
+    events.forEach(ev => audio.addEventListener(ev, update));
+    return () => events.forEach(ev => audio.removeEventListener(ev, update));
+  }, [session, audio]);
+};
@@ -0,0 +1,104 @@
+import type { Track, SceneId } from '../types';
+import type { TrackTimeline } from './TrackAnalysis';
+import { SCENES } from './SceneRegistry';
+import { hslToHex } from './PaletteBlend';
+
+// Rule-based mood classification from a track's pre-analysed features. Each feature is
+// mapped onto -1..1 over the range most music falls in, then weighted into a position on
+// the valence/arousal grid. Without harmony analysis valence is a guess that leans on
+// timbre: bright, fast music tends to read as positive, dark and slow as negative.
+
+export interface MoodFeatures {
+  tempo: number;          // BPM
+  loudness: number;       // dBFS
+  centroid: number;       // Hz
+  brightness: number;     // 0..1
+  onsetDensity: number;   // onsets per second
+}
+
+export interface MoodClassification {
+  valence: number;  // -1..1, negative to positive
+  arousal: number;  // -1..1, calm to energetic
+  mood: string;
+  palette: string[];
+  scene: SceneId;
+}
+
+// Rows run from low to high arousal, columns from low to high valence.
+const MOOD_GRID = [
+  ['melancholic • still', 'calm • drift', 'serene • glow'],
+  ['brooding • haze', 'steady • flow', 'warm • bloom'],
+  ['tense • fierce', 'driving • pulse', 'euphoric • bright'],
+];
+
+const spread = (v: number, lo: number, hi: number) =>
+  Math.max(-1, Math.min(1, ((v - lo) / (hi - lo)) * 2 - 1));
+
+const gridCell = (v: number) => (v < -0.33 ? 0 : v > 0.33 ? 2 : 1);
+
+export const moodFeatures = (timeline: TrackTimeline): MoodFeatures => ({
+  tempo: timeline.tempo,
+  loudness: timeline.loudness,
+  centroid: timeline.centroid,
+  brightness: timeline.brightness,
+  onsetDensity: timeline.duration > 0 ? timeline.onsets.length / timeline.duration : 0,
+});
+
+export const placeMood = (f: MoodFeatures): { valence: number; arousal: number } => {
+  const tempo = spread(f.tempo, 80, 160);
+  const centroid = spread(f.centroid, 800, 3500);
+  const arousal =
+    0.35 * tempo +
+    0.3 * spread(f.loudness, -28, -10) +
+    0.2 * spread(f.onsetDensity, 0.8, 4) +
+    0.15 * centroid;
+  const valence = 0.5 * spread(f.brightness, 0.05, 0.3) + 0.3 * centroid + 0.2 * tempo;
+  return { valence, arousal };
+};
+
+// Low valence sits in indigo, neutral in teal, high in amber; arousal raises saturation
+// and widens the hue spread. The fourth color is a lighter accent opposite the base hue.
+export const moodPalette = (valence: number, arousal: number): string[] => {
+  const v = (valence + 1) / 2;
+  const a = (arousal + 1) / 2;
+  const hue = 250 - v * 215;
+  const step = 15 + a * 25;
+  const sat = 0.35 + a * 0.45;
+  const light = 0.35 + v * 0.2;
+  return [
+    hslToHex(hue, sat, light),
+    hslToHex((hue + step) % 360, sat, light + 0.08),
+    hslToHex((hue + step * 2) % 360, sat * 0.9, light + 0.16),
+    hslToHex((hue + 180) % 360, sat * 0.8, Math.min(0.75, light + 0.25)),
+  ];
+};
+
+export const sceneForMood = (valence: number, arousal: number): SceneId => {
+  let best = Object.values(SCENES)[0];
+  let bestDist = Infinity;
+  for (const entry of Object.values(SCENES)) {
+    const d = (entry.character.valence - valence) ** 2 + (entry.character.arousal - arousal) ** 2;
+    if (d < bestDist) { bestDist = d; best = entry; }
+  }
+  return best.id;
+};
+
+export const classifyMood = (timeline: TrackTimeline): MoodClassification => {
+  const { valence, arousal } = placeMood(moodFeatures(timeline));
+  return {
+    valence,
+    arousal,
+    mood: MOOD_GRID[gridCell(arousal)][gridCell(valence)],
+    palette: moodPalette(valence, arousal),
+    scene: sceneForMood(valence, arousal),
+  };
+};
+
+// What classification may change: placeholders are replaced, hand-written choices are kept.
+// Returns null when the track needs nothing.
+export const classificationPatch = (track: Track, result: MoodClassification): Partial<Track> | null => {
+  if (track.provisional) {
+    return { mood: result.mood, palette: result.palette, scene: track.scene ?? result.scene, provisional: false };
+  }
+  return track.scene ? null : { scene: result.scene };
+};
@@ -0,0 +1,103 @@
+import { useSyncExternalStore } from 'react';
+
+// App-wide safety settings every scene reads per frame. `prefers-reduced-motion` is followed
+// live; photosensitive mode is opt-in and remembered. Either one limits flashing to under
+// 3 Hz (WCAG 2.3.1), caps how fast brightness may change between frames, and slows motion.
+
+export interface MotionSafety {
+  photosensitive: boolean;
+  reducedMotion: boolean;
+}
+
+// At most 3 flashes in any one second, with some margin for frame timing.
+export const FLASH_MIN_INTERVAL_MS = 400;
+// Largest change per 60 Hz frame of a 0..1 brightness-driving value while limiting.
+export const MAX_LUMA_STEP = 0.04;
+const LUMA_FRAME_S = 1 / 60;
+// A stalled frame may catch up this far at most.
+const MAX_LUMA_DT_S = 0.1;
+const REDUCED_MOTION_SCALE = 0.35;
+
+const STORAGE_KEY = 'sound-of-me:photosensitive';
+const reducedMotionQuery = typeof window !== 'undefined' && window.matchMedia
+  ? window.matchMedia('(prefers-reduced-motion: reduce)')
+  : null;
+
+const readStored = () => {
+  try {
+    return localStorage.getItem(STORAGE_KEY) === '1';
+  } catch {
+    return false;
+  }
+};
+
+let state: MotionSafety = {
+  photosensitive: readStored(),
+  reducedMotion: reducedMotionQuery?.matches ?? false,
+};
+const listeners = new Set<() => void>();
+
+const update = (patch: Partial<MotionSafety>) => {
+  state = { ...state, ...patch };
+  listeners.forEach(fn => fn());
+};
+
+reducedMotionQuery?.addEventListener('change', e => update({ reducedMotion: e.matches }));
+
+export const getMotionSafety = (): MotionSafety => state;
+
+export const setPhotosensitive = (on: boolean) => {
+  try {
+    if (on) localStorage.setItem(STORAGE_KEY, '1');
+    else localStorage.removeItem(STORAGE_KEY);
+  } catch { /* private mode: keep it for the session */ }
+  update({ photosensitive: on });
+};
+
+export const subscribeMotionSafety = (fn: () => void) => {
+  listeners.add(fn);
+  return () => { listeners.delete(fn); };
+};
+
+export const useMotionSafety = () => useSyncExternalStore(subscribeMotionSafety, getMotionSafety);
+
+export const limitsFlashes = (s: MotionSafety = state) => s.photosensitive || s.reducedMotion;
+
+// Multiplier for time flow, jitter and particle speed.
+export const motionScale = (s: MotionSafety = state) => (limitsFlashes(s) ? REDUCED_MOTION_SCALE : 1);
+
+// Gate for beat-triggered flashes: while limiting, one per FLASH_MIN_INTERVAL_MS at most.
+export class FlashGuard {
+  private lastFlash = -Infinity;
+
+  public allow(nowMs: number): boolean {
+    if (limitsFlashes() && nowMs - this.lastFlash < FLASH_MIN_INTERVAL_MS) return false;
+    this.lastFlash = nowMs;
+    return true;
+  }
+
+  public reset() {
+    this.lastFlash = -Infinity;
+  }
+}
+
+// Follows a brightness-driving value; while limiting it moves by at most `maxStep` per 60 Hz
+// frame, scaled by the frame time so faster displays don't change brightness faster.
+export class LumaLimiter {
+  private value: number | null = null;
+  private maxStep: number;
+
+  constructor(maxStep = MAX_LUMA_STEP) {
+    this.maxStep = maxStep;
+  }
+
+  public step(target: number, dtSec = LUMA_FRAME_S): number {
+    if (this.value === null || !limitsFlashes()) {
+      this.value = target;
+    } else {
+      const max = this.maxStep * Math.min(Math.max(0, dtSec), MAX_LUMA_DT_S) / LUMA_FRAME_S;
+      this.value += Math.max(-max, Math.min(max, target - this.value));
+    }
+    return this.value;
+  }
+}
@@ -0,0 +1,105 @@
+import type { Track } from '../types';
+import { getSceneForTrack } from './SceneRegistry';
+import { getAudioFeatures } from './AudioFeatures';
+import { ManualFrameDriver } from './FrameDriver';
+import { OfflineSpectrum } from './OfflineSpectrum';
+import { decodeAudio, loadTrackTimeline } from './TrackAnalysis';
+import { loadCueSheet } from './SceneCues';
+import type { SceneParamValues } from './SceneParams';
+
+// Deterministic export: the scene is stepped at a fixed fps from decoded audio, so a render
+// takes as long as it takes and comes out identical every time.
+
+export interface FrameSequenceOptions {
+  width: number;
+  height: number;
+  fps: number;
+  from?: number;  // s
+  to?: number;    // s, defaults to the end of the track
+  params?: SceneParamValues;  // scene tuning; defaults when omitted
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+}
+
+export type FrameWriter = (index: number, png: Blob) => Promise<void>;
+
+// File System Access; lib.dom has the handles but not the picker yet.
+declare global {
+  interface Window {
+    showDirectoryPicker(options?: { mode?: 'read' | 'readwrite' }): Promise<FileSystemDirectoryHandle>;
+  }
+}
+
+const OFFLINE_RATE = 48000;
+
+const canvasToPng = (canvas: HTMLCanvasElement): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode frame'))), 'image/png');
+  });
+
+export const renderFrameSequence = async (
+  track: Track,
+  url: string,
+  options: FrameSequenceOptions,
+  write: FrameWriter,
+) => {
+  const { width, height, fps, signal, onProgress } = options;
+  const buffer = await decodeAudio(url, OFFLINE_RATE);
+  const spectrum = new OfflineSpectrum(buffer);
+  const from = Math.max(0, options.from ?? 0);
+  const to = Math.min(spectrum.duration, options.to ?? spectrum.duration);
+  const total = Math.max(0, Math.floor((to - from) * fps));
+  const dt = 1000 / fps;
+
+  let position = from;
+  const timeline = await loadTrackTimeline(track.id, url).catch(() => null);
+  getAudioFeatures(spectrum).setTimeline(timeline, () => position);
+  const cues = await loadCueSheet(track.id, track.cues).catch(() => null);
+  getAudioFeatures(spectrum).setCues(cues, () => position);
+
+  // Scenes size themselves from their parent, so give the canvas an off-screen box at full size.
+  const container = document.createElement('div');
+  Object.assign(container.style, {
+    position: 'fixed', left: '-100000px', top: '0',
+    width: `${width}px`, height: `${height}px`, pointerEvents: 'none',
+  });
+  const canvas = document.createElement('canvas');
+  Object.assign(canvas.style, { width: '100%', height: '100%', display: 'block' });
+  container.appendChild(canvas);
+  document.body.appendChild(container);
+
+  // The driver lands on exactly `position` after each step.
+  const driver = new ManualFrameDriver(from * 1000 - dt);
+  spectrum.seek(from);
+  const scene = getSceneForTrack(track).create(canvas, spectrum, track, driver);
+  try {
+    if (options.params) scene.setParams(options.params);
+    scene.init();
+    scene.setSize(width, height, 1);
+    for (let i = 0; i < total; i++) {
+      if (signal?.aborted) throw new DOMException('Frame export cancelled', 'AbortError');
+      position = from + i / fps;
+      spectrum.seek(position);
+      driver.step(dt);
+      await write(i, await canvasToPng(canvas));
+      onProgress?.(i + 1, total);
+    }
+  } finally {
+    scene.destroy();
+    container.remove();
+  }
+};
+
+export const isFrameExportSupported = (): boolean =>
+  typeof window !== 'undefined' && 'showDirectoryPicker' in window;
+
+// Writes frames as <prefix>_000000.png into a folder the user picks. Must run from a user gesture.
+export const pickFrameDirectory = async (prefix: string): Promise<FrameWriter> => {
+  const dir = await window.showDirectoryPicker({ mode: 'readwrite' });
+  return async (index, png) => {
+    const handle = await dir.getFileHandle(`${prefix}_${String(index).padStart(6, '0')}.png`, { create: true });
+    const writable = await handle.createWritable();
+    await writable.write(png);
+    await writable.close();
+  };
+};
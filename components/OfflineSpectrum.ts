@@ -0,0 +1,115 @@
+import type { SpectrumSource } from './AudioFeatures';
+
+// Stands in for an AnalyserNode over decoded audio: seek() to a position, then read the
+// spectrum the analyser would report there. Windowing, smoothing and the byte mapping
+// follow the Web Audio spec so scenes see the same ranges as during live playback.
+
+const MIN_DB = -100;
+const MAX_DB = -30;
+
+// In-place radix-2 FFT; the length must be a power of two.
+export const fft = (re: Float32Array, im: Float32Array) => {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let len = 2; len <= n; len <<= 1) {
+    const ang = (-2 * Math.PI) / len;
+    const wr = Math.cos(ang), wi = Math.sin(ang);
+    for (let i = 0; i < n; i += len) {
+      let cr = 1, ci = 0;
+      for (let k = 0; k < len / 2; k++) {
+        const a = i + k, b = a + len / 2;
+        const tr = re[b] * cr - im[b] * ci;
+        const ti = re[b] * ci + im[b] * cr;
+        re[b] = re[a] - tr; im[b] = im[a] - ti;
+        re[a] += tr; im[a] += ti;
+        const ncr = cr * wr - ci * wi;
+        ci = cr * wi + ci * wr;
+        cr = ncr;
+      }
+    }
+  }
+};
+
+export class OfflineSpectrum implements SpectrumSource {
+  public readonly fftSize: number;
+  public readonly frequencyBinCount: number;
+  public readonly context: { readonly sampleRate: number };
+  public smoothingTimeConstant: number;
+
+  private samples: Float32Array;
+  private position = 0;
+  private window: Float32Array;
+  private re: Float32Array;
+  private im: Float32Array;
+  private smoothed: Float32Array;
+  private computedAt = -1;
+
+  constructor(buffer: AudioBuffer, fftSize = 2048, smoothingTimeConstant = 0.85) {
+    this.fftSize = fftSize;
+    this.frequencyBinCount = fftSize / 2;
+    this.context = { sampleRate: buffer.sampleRate };
+    this.smoothingTimeConstant = smoothingTimeConstant;
+    this.samples = new Float32Array(buffer.length);
+    for (let c = 0; c < buffer.numberOfChannels; c++) {
+      const ch = buffer.getChannelData(c);
+      for (let i = 0; i < ch.length; i++) this.samples[i] += ch[i] / buffer.numberOfChannels;
+    }
+    this.re = new Float32Array(fftSize);
+    this.im = new Float32Array(fftSize);
+    this.smoothed = new Float32Array(this.frequencyBinCount);
+    // Blackman window, as AnalyserNode applies.
+    this.window = new Float32Array(fftSize);
+    for (let i = 0; i < fftSize; i++) {
+      const x = i / fftSize;
+      this.window[i] = 0.42 - 0.5 * Math.cos(2 * Math.PI * x) + 0.08 * Math.cos(4 * Math.PI * x);
+    }
+  }
+
+  public get duration(): number {
+    return this.samples.length / this.context.sampleRate;
+  }
+
+  // Moves the read head; the analysis window ends at `seconds`, like the analyser's latest block.
+  public seek(seconds: number) {
+    this.position = Math.max(0, Math.round(seconds * this.context.sampleRate));
+  }
+
+  public getFloatTimeDomainData(array: Float32Array) {
+    const start = this.position - array.length;
+    for (let i = 0; i < array.length; i++) array[i] = this.samples[start + i] ?? 0;
+  }
+
+  public getByteFrequencyData(array: Uint8Array) {
+    if (this.computedAt !== this.position) {
+      this.computeSpectrum();
+      this.computedAt = this.position;
+    }
+    const range = MAX_DB - MIN_DB;
+    for (let i = 0; i < array.length && i < this.smoothed.length; i++) {
+      const db = 20 * Math.log10(this.smoothed[i] || 1e-12);
+      array[i] = Math.max(0, Math.min(255, Math.floor((255 / range) * (db - MIN_DB))));
+    }
+  }
+
+  private computeSpectrum() {
+    const start = this.position - this.fftSize;
+    for (let i = 0; i < this.fftSize; i++) {
+      this.re[i] = (this.samples[start + i] ?? 0) * this.window[i];
+      this.im[i] = 0;
+    }
+    fft(this.re, this.im);
+    const tau = this.smoothingTimeConstant;
+    for (let k = 0; k < this.frequencyBinCount; k++) {
+      const mag = Math.hypot(this.re[k], this.im[k]) / this.fftSize;
+      this.smoothed[k] = tau * this.smoothed[k] + (1 - tau) * mag;
+    }
+  }
+}
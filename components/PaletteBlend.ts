@@ -0,0 +1,100 @@
+// Eases a scene's colors toward a track palette so palette changes never cut.
+// Colors are kept as sRGB floats; THREE scenes load them with setRGB(..., SRGBColorSpace).
+
+export type RGB = [number, number, number];
+
+const parseHex = (hex: string): RGB => {
+  let h = hex.replace('#', '');
+  if (h.length === 3) h = h.split('').map(c => c + c).join('');
+  const n = parseInt(h, 16);
+  if (Number.isNaN(n)) return [1, 1, 1];
+  return [((n >> 16) & 255) / 255, ((n >> 8) & 255) / 255, (n & 255) / 255];
+};
+
+const toHex = ([r, g, b]: RGB): string =>
+  '#' + [r, g, b].map(v => Math.round(Math.max(0, Math.min(1, v)) * 255).toString(16).padStart(2, '0')).join('');
+
+// h in degrees, s and l in 0..1.
+export const hslToHex = (h: number, s: number, l: number): string => {
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => {
+    const k = (n + h / 30) % 12;
+    const c = l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    return Math.round(c * 255).toString(16).padStart(2, '0');
+  };
+  return `#${f(0)}${f(8)}${f(4)}`;
+};
+
+const luminance = ([r, g, b]: RGB) => 0.2126 * r + 0.7152 * g + 0.0722 * b;
+
+export class PaletteBlend {
+  private current: RGB[];
+  private target: RGB[];
+  private ranks: number[] = [];
+  private seconds: number;
+  private easeSeconds: number;  // the current change's; a cue sets its own
+  private base: string[];
+  private override: string[] | null = null;
+
+  constructor(palette: string[], seconds = 1.5) {
+    this.seconds = seconds;
+    this.easeSeconds = seconds;
+    this.base = palette;
+    this.target = (palette.length ? palette : ['#ffffff']).map(parseHex);
+    this.current = this.target.map(c => [...c] as RGB);
+    this.rank();
+  }
+
+  public get length(): number {
+    return this.current.length;
+  }
+
+  public setTarget(palette: string[]) {
+    this.base = palette;
+    if (this.override) return;
+    this.easeSeconds = this.seconds;
+    this.retarget(palette);
+  }
+
+  // A cue's palette takes over from the track's while set; null hands back to the track's.
+  // The change eases over `seconds`. Cheap to call every frame with the same array.
+  public setOverride(palette: string[] | null, seconds = this.seconds) {
+    if (palette === this.override) return;
+    this.override = palette;
+    this.easeSeconds = seconds;
+    this.retarget(palette ?? this.base);
+  }
+
+  private retarget(palette: string[]) {
+    const next = (palette.length ? palette : ['#ffffff']).map(parseHex);
+    // New slots start from an existing color so they fade in rather than pop.
+    this.current = next.map((_, i) => [...this.current[i % this.current.length]] as RGB);
+    this.target = next;
+    this.rank();
+  }
+
+  public step(dtSec: number) {
+    const k = this.easeSeconds > 0 ? 1 - Math.exp(-Math.max(0, dtSec) / (this.easeSeconds / 4)) : 1;
+    for (let i = 0; i < this.current.length; i++) {
+      for (let j = 0; j < 3; j++) this.current[i][j] += (this.target[i][j] - this.current[i][j]) * k;
+    }
+  }
+
+  // Palette slot i, wrapping for palettes shorter than the scene needs.
+  public rgb(i: number): RGB {
+    return this.current[((i % this.length) + this.length) % this.length];
+  }
+
+  // k-th darkest color of the target palette (0 = darkest), clamped to the palette size.
+  public byBrightness(k: number): RGB {
+    return this.current[this.ranks[Math.max(0, Math.min(this.ranks.length - 1, k))]];
+  }
+
+  public hexes(): string[] {
+    return this.current.map(toHex);
+  }
+
+  private rank() {
+    this.ranks = this.target.map((c, i) => [luminance(c), i]).sort((a, b) => a[0] - b[0]).map(([, i]) => i);
+  }
+}
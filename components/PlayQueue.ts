@@ -0,0 +1,45 @@
+// Play order over the track list. Kept as plain functions over track ids so App can hold
+// the order in state and the rules stay easy to follow.
+
+export type RepeatMode = 'off' | 'all' | 'one';
+
+export const REPEAT_CYCLE: Record<RepeatMode, RepeatMode> = { off: 'all', all: 'one', one: 'off' };
+
+const shuffled = (ids: string[], random: () => number): string[] => {
+  const out = [...ids];
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+};
+
+// When shuffling, the current track leads so toggling shuffle never interrupts it.
+export const buildOrder = (ids: string[], currentId: string, shuffle: boolean, random = Math.random): string[] => {
+  if (!shuffle) return [...ids];
+  const rest = ids.filter(id => id !== currentId);
+  return ids.includes(currentId) ? [currentId, ...shuffled(rest, random)] : shuffled(rest, random);
+};
+
+// Keeps the existing order and appends ids that are new to it; drops ids that are gone.
+export const syncOrder = (order: string[], ids: string[]): string[] => {
+  const known = new Set(order);
+  const present = new Set(ids);
+  return [...order.filter(id => present.has(id)), ...ids.filter(id => !known.has(id))];
+};
+
+// `auto` is true when the previous track ended on its own rather than on a button press.
+// Returns null when playback should stop.
+export const nextTrackId = (order: string[], currentId: string, repeat: RepeatMode, auto: boolean): string | null => {
+  if (!order.length) return null;
+  if (auto && repeat === 'one') return currentId;
+  const i = order.indexOf(currentId);
+  if (i + 1 < order.length) return order[i + 1];
+  return repeat === 'off' && auto ? null : order[0];
+};
+
+export const prevTrackId = (order: string[], currentId: string): string | null => {
+  if (!order.length) return null;
+  const i = order.indexOf(currentId);
+  return i <= 0 ? order[order.length - 1] : order[i - 1];
+};
@@ -1,6 +1,9 @@
 
-import React from 'react';
+import React, { useRef } from 'react';
 import type { Track } from '../types';
+import { trackLabel } from '../constants';
+import type { RepeatMode } from './PlayQueue';
+import SeekBar from './SeekBar';
 
 interface PlayerProps {
   tracks: Track[];
@@ -9,8 +12,26 @@ interface PlayerProps {
   onSelectTrack: (id: string, playOnSelect?: boolean) => void;
   onPlay: () => void;
   onPause: () => void;
+  onNext: () => void;
+  onPrev: () => void;
+  shuffle: boolean;
+  repeat: RepeatMode;
+  onToggleShuffle: () => void;
+  onCycleRepeat: () => void;
+  audio: HTMLAudioElement | null;
+  waveform: { min: number[]; max: number[] } | null;
+  onSeek: (seconds: number) => void;
   volume: number;
   onVolumeChange: (newVolume: number) => void;
+  onAddFiles: (files: FileList) => void;
+  isLive: boolean;
+  liveSupported: boolean;
+  inputDevices: MediaDeviceInfo[];
+  inputDeviceId: string;
+  monitor: boolean;
+  onStartLive: (deviceId?: string) => void;
+  onStopLive: () => void;
+  onToggleMonitor: () => void;
 }
 
 const PlayerButton: React.FC<{ children: React.ReactNode; onClick: () => void; }> = ({ children, onClick }) => (
@@ -22,42 +43,131 @@ const PlayerButton: React.FC<{ children: React.ReactNode; onClick: () => void; }
   </button>
 );
 
-const Player: React.FC<PlayerProps> = ({ tracks, currentTrack, isPlaying, onSelectTrack, onPlay, onPause, volume, onVolumeChange }) => {
+const ToggleButton: React.FC<{ children: React.ReactNode; onClick: () => void; active?: boolean; title: string; }> = ({ children, onClick, active = false, title }) => (
+  <button
+    onClick={onClick}
+    title={title}
+    aria-pressed={active}
+    className={`border w-8 h-8 rounded-full text-xs cursor-pointer transition-all duration-200 bg-[#121212]
+      ${active
+        ? 'border-[#3aa6ff] text-[#eaf6ff] shadow-[0_0_0_3px_rgba(58,166,255,0.1)]'
+        : 'border-zinc-800 text-zinc-400 hover:border-zinc-600 hover:text-zinc-200'
+      }`}
+  >
+    {children}
+  </button>
+);
+
+const REPEAT_LABEL: Record<RepeatMode, string> = { off: 'Repeat off', all: 'Repeat all', one: 'Repeat one' };
+
+const Player: React.FC<PlayerProps> = ({
+  tracks, currentTrack, isPlaying, onSelectTrack, onPlay, onPause, onNext, onPrev,
+  shuffle, repeat, onToggleShuffle, onCycleRepeat, audio, waveform, onSeek, volume, onVolumeChange, onAddFiles,
+  isLive, liveSupported, inputDevices, inputDeviceId, monitor, onStartLive, onStopLive, onToggleMonitor,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
   return (
-    <footer className="flex items-center gap-3 p-3.5 border-t border-zinc-900 bg-gradient-to-t from-[#0f0f0f] to-transparent z-10">
-      <PlayerButton onClick={isPlaying ? onPause : onPlay}>
-        {isPlaying ? 'Pause' : 'Play'}
-      </PlayerButton>
-      <div className="flex gap-2 flex-wrap flex-1">
-        {tracks.map(track => (
+    <footer className="flex flex-col gap-2 p-3.5 border-t border-zinc-900 bg-gradient-to-t from-[#0f0f0f] to-transparent z-10">
+      {!isLive && <SeekBar audio={audio} waveform={waveform} onSeek={onSeek} />}
+      <div className="flex items-center gap-3">
+        {isLive ? (
+          <PlayerButton onClick={onStopLive}>Stop live</PlayerButton>
+        ) : (
+          <div className="flex items-center gap-1.5">
+            <ToggleButton onClick={onPrev} title="Previous">⏮</ToggleButton>
+            <PlayerButton onClick={isPlaying ? onPause : onPlay}>
+              {isPlaying ? 'Pause' : 'Play'}
+            </PlayerButton>
+            <ToggleButton onClick={onNext} title="Next">⏭</ToggleButton>
+            <ToggleButton onClick={onToggleShuffle} active={shuffle} title={shuffle ? 'Shuffle on' : 'Shuffle off'}>⤮</ToggleButton>
+            <ToggleButton onClick={onCycleRepeat} active={repeat !== 'off'} title={REPEAT_LABEL[repeat]}>
+              {repeat === 'one' ? '↻1' : '↻'}
+            </ToggleButton>
+          </div>
+        )}
+        {!isLive && currentTrack.artwork && (
+          <img src={currentTrack.artwork} alt="" className="w-9 h-9 rounded-md object-cover border border-zinc-800" />
+        )}
+        <div className="flex gap-2 flex-wrap flex-1">
+          {tracks.map(track => (
+            <button
+              key={track.id}
+              onClick={() => onSelectTrack(track.id, true)}
+              className={`border px-3 py-1.5 rounded-full text-xs cursor-pointer transition-all duration-200
+                ${!isLive && currentTrack.id === track.id
+                  ? 'border-[#3aa6ff] text-[#eaf6ff] bg-[#121212] shadow-[0_0_0_3px_rgba(58,166,255,0.1)]'
+                  : 'border-zinc-800 text-zinc-400 bg-[#121212] hover:border-zinc-600 hover:text-zinc-200'
+                }`
+              }
+            >
+              {trackLabel(track)}
+            </button>
+          ))}
+        </div>
+        {isLive && (
+          <div className="flex items-center gap-2">
+            <select
+              value={inputDeviceId}
+              onChange={(e) => onStartLive(e.target.value)}
+              className="max-w-[12rem] border border-zinc-800 bg-[#121212] text-zinc-300 rounded-full px-3 py-1.5 text-xs cursor-pointer"
+            >
+              {inputDevices.map((d, i) => (
+                <option key={d.deviceId} value={d.deviceId}>{d.label || `Input ${i + 1}`}</option>
+              ))}
+            </select>
+            <button
+              onClick={onToggleMonitor}
+              title="Route the input to the speakers. Keep off with open mics to avoid feedback."
+              className={`border px-3 py-1.5 rounded-full text-xs cursor-pointer transition-all duration-200 bg-[#121212]
+                ${monitor ? 'border-[#3aa6ff] text-[#eaf6ff]' : 'border-zinc-800 text-zinc-400 hover:border-zinc-600 hover:text-zinc-200'}`}
+            >
+              Monitor {monitor ? 'on' : 'off'}
+            </button>
+          </div>
+        )}
+        {liveSupported && !isLive && (
           <button
-            key={track.id}
-            onClick={() => onSelectTrack(track.id, true)}
-            className={`border px-3 py-1.5 rounded-full text-xs cursor-pointer transition-all duration-200
-              ${currentTrack.id === track.id
-                ? 'border-[#3aa6ff] text-[#eaf6ff] bg-[#121212] shadow-[0_0_0_3px_rgba(58,166,255,0.1)]'
-                : 'border-zinc-800 text-zinc-400 bg-[#121212] hover:border-zinc-600 hover:text-zinc-200'
-              }`
-            }
+            onClick={() => onStartLive(inputDeviceId || undefined)}
+            title="Visualize a microphone or line-in"
+            className="border border-zinc-800 px-3 py-1.5 rounded-full text-xs text-zinc-400 bg-[#121212] cursor-pointer transition-all duration-200 hover:border-zinc-600 hover:text-zinc-200"
           >
-            {track.title}
+            ● Live input
           </button>
-        ))}
-      </div>
-      <div className="flex items-center gap-2 pr-2">
-        <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="text-zinc-400">
-          <polygon points="11 5 6 9 2 9 2 15 6 15 11 19 11 5"></polygon>
-          <path d={volume > 0.5 ? "M19.07 4.93a10 10 0 0 1 0 14.14M15.54 8.46a5 5 0 0 1 0 7.07" : volume > 0 ? "M15.54 8.46a5 5 0 0 1 0 7.07" : ""}></path>
-        </svg>
+        )}
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          title="Play local audio files"
+          className="border border-dashed border-zinc-700 px-3 py-1.5 rounded-full text-xs text-zinc-400 bg-[#121212] cursor-pointer transition-all duration-200 hover:border-zinc-500 hover:text-zinc-200"
+        >
+          + Local files
+        </button>
         <input
-          type="range"
-          min="0"
-          max="1"
-          step="0.01"
-          value={volume}
-          onChange={(e) => onVolumeChange(parseFloat(e.target.value))}
-          className="w-24 accent-zinc-400"
+          ref={fileInputRef}
+          type="file"
+          accept="audio/*,.mp3,.wav,.ogg,.oga,.flac,.lrc"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            if (e.target.files?.length) onAddFiles(e.target.files);
+            e.target.value = '';
+          }}
         />
+        <div className="flex items-center gap-2 pr-2">
+          <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" className="text-zinc-400">
+            <polygon points="11 5 6 9 2 9 2 15 6 15 11 19 11 5"></polygon>
+            <path d={volume > 0.5 ? "M19.07 4.93a10 10 0 0 1 0 14.14M15.54 8.46a5 5 0 0 1 0 7.07" : volume > 0 ? "M15.54 8.46a5 5 0 0 1 0 7.07" : ""}></path>
+          </svg>
+          <input
+            type="range"
+            min="0"
+            max="1"
+            step="0.01"
+            value={volume}
+            onChange={(e) => onVolumeChange(parseFloat(e.target.value))}
+            className="w-24 accent-zinc-400"
+          />
+        </div>
       </div>
     </footer>
   );
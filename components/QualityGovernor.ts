@@ -0,0 +1,75 @@
+// Holds a target frame rate by stepping a scene's quality tier down when frames run long
+// and back up after a sustained stretch of headroom. Scenes list their tiers from cheapest
+// to full quality and start at the top; offline renders never run a governor, so exports
+// always use full quality.
+
+export interface QualityTier {
+  label: string;
+  maxDpr: number;  // render scale cap; the device pixel ratio is used up to this
+}
+
+const TARGET_FPS = 50;
+const WINDOW_MS = 1000;
+// Longer gaps are a hidden tab or a paused driver, not slow rendering.
+const MAX_FRAME_MS = 250;
+const DOWN_SETTLE_MS = 1500;
+const UP_HOLD_MS = 8000;
+const MAX_BACKOFF = 4;
+
+export const renderDpr = (tier: QualityTier) => Math.min(window.devicePixelRatio || 1, tier.maxDpr);
+
+export class QualityGovernor {
+  private tier: number;
+  private tierCount: number;
+  private targetFps: number;
+  private windowStart = -1;
+  private frames = 0;
+  private lastChange = 0;
+  private lastStepWasUp = false;
+  // Each step up that had to be undone doubles the wait before the next try.
+  private backoff = 0;
+
+  constructor(tierCount: number, targetFps = TARGET_FPS) {
+    this.tierCount = tierCount;
+    this.tier = tierCount - 1;
+    this.targetFps = targetFps;
+  }
+
+  public get current(): number {
+    return this.tier;
+  }
+
+  // Call once per displayed frame. Returns the new tier when it changes, otherwise null.
+  public frame(nowMs: number, dtMs: number): number | null {
+    if (dtMs > MAX_FRAME_MS || this.windowStart < 0) {
+      this.windowStart = nowMs;
+      this.frames = 0;
+      if (!this.lastChange) this.lastChange = nowMs;
+      return null;
+    }
+    this.frames++;
+    const elapsed = nowMs - this.windowStart;
+    if (elapsed < WINDOW_MS) return null;
+
+    const fps = (this.frames * 1000) / elapsed;
+    this.windowStart = nowMs;
+    this.frames = 0;
+    const sinceChange = nowMs - this.lastChange;
+
+    if (fps < this.targetFps * 0.9 && this.tier > 0 && sinceChange > DOWN_SETTLE_MS) {
+      if (this.lastStepWasUp) this.backoff = Math.min(MAX_BACKOFF, this.backoff + 1);
+      return this.step(-1, nowMs);
+    }
+    if (fps >= this.targetFps && this.tier < this.tierCount - 1 && sinceChange > UP_HOLD_MS * 2 ** this.backoff) {
+      return this.step(1, nowMs);
+    }
+    return null;
+  }
+
+  private step(dir: 1 | -1, nowMs: number): number {
+    this.tier += dir;
+    this.lastChange = nowMs;
+    this.lastStepWasUp = dir > 0;
+    return this.tier;
+  }
+}
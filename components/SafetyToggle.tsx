@@ -0,0 +1,25 @@
+import React from 'react';
+import { useMotionSafety, setPhotosensitive } from './MotionSafety';
+
+const SafetyToggle: React.FC = () => {
+  const { photosensitive, reducedMotion } = useMotionSafety();
+  const title = reducedMotion
+    ? 'Your system asks for reduced motion, so flashing and motion are already limited'
+    : 'Limit flashing to under 3 per second, soften brightness changes and slow motion';
+  return (
+    <button
+      onClick={() => setPhotosensitive(!photosensitive)}
+      title={title}
+      aria-pressed={photosensitive}
+      className={`text-xs border rounded-full px-3 py-1.5 bg-[rgba(10,10,10,0.7)] backdrop-blur-md cursor-pointer transition-colors
+        ${photosensitive || reducedMotion
+          ? 'text-[#eaf6ff] border-[#3aa6ff]'
+          : 'text-zinc-300 border-zinc-800 hover:border-zinc-600 hover:text-white'
+        }`}
+    >
+      {photosensitive ? '◐ Photosensitive-safe' : reducedMotion ? '◐ Reduced motion' : '◑ Flash-safe off'}
+    </button>
+  );
+};
+
+export default SafetyToggle;
@@ -0,0 +1,295 @@
+import type { SceneId } from '../types';
+
+// Scripted visual events for a track, read against the playback position so they hold after a
+// seek. Kept per track in localStorage once edited, otherwise fetched from the track's cue file:
+//
+// { "version": 1, "trackId": "journey", "cues": [
+//   { "at": 62.5, "palette": ["#9be15d", "#3ba3ff"] },         from then on, until the next palette
+//   { "from": 150, "to": 185, "fade": 2, "intensity": 1.5 },   eased in and out over `fade` seconds
+//   { "from": 150, "to": 185, "camera": { "orbit": 40, "tilt": 10, "zoom": 1.3 } },
+//   { "from": 90, "to": 120, "ripples": 2 },
+//   { "at": 149.8, "pulse": 1 }
+// ] }
+//
+// A point cue ("at") holds its value until the next point cue of the same kind and eases to it
+// over `fade`, from wherever the one before had got to. A range cue ("from"/"to") applies on top of that and lets go at its end. Pulses
+// are instants and fire only when playback runs across them.
+
+export type CueKind = 'palette' | 'intensity' | 'camera' | 'ripples' | 'pulse';
+
+// Offsets for ThreeScene's view: degrees around and above the orb, and a zoom factor.
+export interface CameraMove {
+  orbit: number;
+  tilt: number;
+  zoom: number;
+}
+
+export type CueEvent =
+  | { kind: 'palette'; palette: string[] }
+  | { kind: 'intensity' | 'ripples' | 'pulse'; value: number }
+  | { kind: 'camera'; camera: CameraMove };
+
+export type SceneCue = CueEvent & {
+  start: number;        // s
+  end: number | null;   // null for a point cue
+  fade: number;         // s
+};
+
+// What the cues add up to at one playback position.
+export interface CueFrame {
+  intensity: number;  // multiplies the band levels every scene reacts to
+  ripples: number;    // JourneyScene: ripples per hit
+  camera: CameraMove;
+  palette: string[] | null;  // replaces the track's palette while set
+  paletteFade: number;       // s, how long the latest palette change eases for
+  pulse: number;      // BelieverScene: strength of a pulse crossed since the last frame
+}
+
+export const CUES_VERSION = 1;
+export const DEFAULT_FADE_S = 1;
+export const NEUTRAL_CAMERA: CameraMove = { orbit: 0, tilt: 0, zoom: 1 };
+
+// Which scenes act on each kind; intensity and palette work everywhere.
+export const CUE_KINDS: { kind: CueKind; label: string; scene?: SceneId }[] = [
+  { kind: 'intensity', label: 'Intensity' },
+  { kind: 'palette', label: 'Palette' },
+  { kind: 'camera', label: 'Camera', scene: 'three' },
+  { kind: 'ripples', label: 'Ripple density', scene: 'journey' },
+  { kind: 'pulse', label: 'Pulse', scene: 'believer' },
+];
+
+export const CUE_VALUE_RANGE: Record<'intensity' | 'ripples' | 'pulse', [number, number]> = {
+  intensity: [0, 4],
+  ripples: [0, 4],
+  pulse: [0, 1],
+};
+
+// Larger jumps in playback position are seeks, and cross no pulses.
+const MAX_STEP_S = 0.5;
+
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+const storageKey = (trackId: string) => `sound-of-me:cues:${trackId}`;
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const isTime = (v: unknown): v is number => typeof v === 'number' && isFinite(v) && v >= 0;
+
+const clamp = (v: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, v));
+
+const num = (v: unknown, fallback: number) => (typeof v === 'number' && isFinite(v) ? v : fallback);
+
+const parseEvent = (c: Record<string, unknown>): CueEvent | null => {
+  if (Array.isArray(c.palette)) {
+    const palette = c.palette.filter((h): h is string => typeof h === 'string' && HEX_COLOR.test(h));
+    return palette.length ? { kind: 'palette', palette } : null;
+  }
+  if (isObject(c.camera)) {
+    return {
+      kind: 'camera',
+      camera: {
+        orbit: num(c.camera.orbit, 0),
+        tilt: clamp(num(c.camera.tilt, 0), -80, 80),
+        zoom: clamp(num(c.camera.zoom, 1), 0.25, 4),
+      },
+    };
+  }
+  for (const kind of ['intensity', 'ripples', 'pulse'] as const) {
+    const v = c[kind];
+    if (typeof v === 'number' && isFinite(v)) return { kind, value: clamp(v, ...CUE_VALUE_RANGE[kind]) };
+  }
+  return null;
+};
+
+// Entries without a usable time or event are dropped, and so are ranged pulses. Sorted by start.
+export const parseCues = (raw: unknown): SceneCue[] => {
+  const list = isObject(raw) ? raw.cues : raw;
+  if (!Array.isArray(list)) throw new Error('Expected a cue file with a "cues" array.');
+  return list.flatMap((c): SceneCue[] => {
+    if (!isObject(c)) return [];
+    const event = parseEvent(c);
+    if (!event) return [];
+    const fade = isTime(c.fade) ? c.fade : DEFAULT_FADE_S;
+    if (isTime(c.at)) return [{ ...event, start: c.at, end: null, fade }];
+    if (event.kind === 'pulse' || !isTime(c.from) || !isTime(c.to) || c.to <= c.from) return [];
+    return [{ ...event, start: c.from, end: c.to, fade }];
+  }).sort((a, b) => a.start - b.start);
+};
+
+const cueToJson = (cue: SceneCue) => {
+  const time = cue.end === null ? { at: cue.start } : { from: cue.start, to: cue.end };
+  const fade = cue.fade !== DEFAULT_FADE_S ? { fade: cue.fade } : {};
+  const event = cue.kind === 'palette' ? { palette: cue.palette }
+    : cue.kind === 'camera' ? { camera: cue.camera }
+    : { [cue.kind]: cue.value };
+  return { ...time, ...fade, ...event };
+};
+
+const cuesToJson = (trackId: string, cues: SceneCue[]) => ({ version: CUES_VERSION, trackId, cues: cues.map(cueToJson) });
+
+export const cuesToBlob = (trackId: string, cues: SceneCue[]): Blob =>
+  new Blob([JSON.stringify(cuesToJson(trackId, cues), null, 2)], { type: 'application/json' });
+
+export const hasStoredCues = (trackId: string): boolean => {
+  try {
+    return localStorage.getItem(storageKey(trackId)) !== null;
+  } catch {
+    return false;
+  }
+};
+
+// Null when the track has no edited cues.
+export const loadStoredCues = (trackId: string): SceneCue[] | null => {
+  try {
+    const stored = localStorage.getItem(storageKey(trackId));
+    return stored ? parseCues(JSON.parse(stored)) : null;
+  } catch (e) {
+    console.warn('Ignoring unreadable cues:', e);
+    return null;
+  }
+};
+
+// Null drops the edits, so the track's cue file applies again.
+export const saveCues = (trackId: string, cues: SceneCue[] | null) => {
+  try {
+    if (cues) localStorage.setItem(storageKey(trackId), JSON.stringify(cuesToJson(trackId, cues)));
+    else localStorage.removeItem(storageKey(trackId));
+  } catch (e) {
+    console.warn('Could not save cues:', e);
+  }
+};
+
+// Edited cues win over the track's cue file; null when there are neither.
+export const loadCueSheet = async (trackId: string, url?: string): Promise<SceneCue[] | null> => {
+  const stored = loadStoredCues(trackId);
+  if (stored || !url) return stored;
+  const res = await fetch(url, { cache: 'no-cache' });
+  if (!res.ok) throw new Error(`Cue file ${url} could not be fetched (HTTP ${res.status})`);
+  return parseCues(await res.json());
+};
+
+export const describeCue = (cue: SceneCue): string => {
+  switch (cue.kind) {
+    case 'palette': return `Palette ${cue.palette.length} colors`;
+    case 'camera': return `Camera ${cue.camera.orbit}° / ${cue.camera.tilt}° × ${cue.camera.zoom}`;
+    case 'intensity': return `Intensity × ${cue.value}`;
+    case 'ripples': return `Ripples × ${cue.value}`;
+    case 'pulse': return `Pulse ${cue.value}`;
+  }
+};
+
+const smoothstep = (t: number) => t * t * (3 - 2 * t);
+
+// 0..1 through a fade that started `elapsed` seconds ago.
+const ramp = (elapsed: number, fade: number) => (fade > 0 ? smoothstep(clamp(elapsed / fade, 0, 1)) : elapsed >= 0 ? 1 : 0);
+
+const lerp = (a: number, b: number, w: number) => a + (b - a) * w;
+
+// Where a point cue has eased to `pos`, starting from `from`.
+const easeValue = (from: number, cue: SceneCue | null, pos: number) =>
+  cue && 'value' in cue ? lerp(from, cue.value, ramp(pos - cue.start, cue.fade)) : from;
+
+const easeCamera = (from: CameraMove, cue: SceneCue | null, pos: number): CameraMove => {
+  if (cue?.kind !== 'camera') return from;
+  const w = ramp(pos - cue.start, cue.fade);
+  return {
+    orbit: lerp(from.orbit, cue.camera.orbit, w),
+    tilt: lerp(from.tilt, cue.camera.tilt, w),
+    zoom: lerp(from.zoom, cue.camera.zoom, w),
+  };
+};
+
+// Evaluates a cue list at the playback position each frame.
+export class CuePlayer {
+  private cues: SceneCue[];
+  private lastPosition = -1;
+  public readonly frame: CueFrame = {
+    intensity: 1, ripples: 1, camera: { ...NEUTRAL_CAMERA }, palette: null, paletteFade: DEFAULT_FADE_S, pulse: 0,
+  };
+
+  constructor(cues: SceneCue[]) {
+    this.cues = [...cues].sort((a, b) => a.start - b.start);
+  }
+
+  public sample(pos: number): CueFrame {
+    const prev = this.lastPosition;
+    const continuous = prev >= 0 && pos >= prev && pos - prev < MAX_STEP_S;
+    this.lastPosition = pos;
+
+    // The latest point cue of each kind so far, and the value it eases from: where the cue
+    // before it had got to when it took over, so cues in quick succession don't jump.
+    let intensity: SceneCue | null = null, intensityFrom = 1;
+    let ripples: SceneCue | null = null, ripplesFrom = 1;
+    let camera: SceneCue | null = null, cameraFrom = NEUTRAL_CAMERA;
+    let palette: SceneCue | null = null;
+    let pulse = 0;
+    for (const cue of this.cues) {
+      if (cue.start > pos) break;
+      if (cue.end !== null) continue;
+      switch (cue.kind) {
+        case 'pulse':
+          if (continuous && cue.start > prev) pulse = Math.max(pulse, cue.value);
+          break;
+        case 'intensity':
+          intensityFrom = easeValue(intensityFrom, intensity, cue.start);
+          intensity = cue;
+          break;
+        case 'ripples':
+          ripplesFrom = easeValue(ripplesFrom, ripples, cue.start);
+          ripples = cue;
+          break;
+        case 'camera':
+          cameraFrom = easeCamera(cameraFrom, camera, cue.start);
+          camera = cue;
+          break;
+        case 'palette':
+          palette = cue;
+          break;
+      }
+    }
+
+    const f = this.frame;
+    f.intensity = easeValue(intensityFrom, intensity, pos);
+    f.ripples = easeValue(ripplesFrom, ripples, pos);
+    Object.assign(f.camera, easeCamera(cameraFrom, camera, pos));
+    f.palette = palette?.kind === 'palette' ? palette.palette : null;
+    // The palette blend eases over the fade of whichever cue changed it last: a point cue,
+    // or a range starting or ending.
+    let changed = palette ? palette.start : -1;
+    f.paletteFade = palette ? palette.fade : DEFAULT_FADE_S;
+    f.pulse = pulse;
+
+    for (const cue of this.cues) {
+      if (cue.start > pos) break;
+      if (cue.end === null) continue;
+      if (cue.kind === 'palette') {
+        const at = pos >= cue.end ? cue.end : cue.start;
+        if (at >= changed) {
+          changed = at;
+          f.paletteFade = cue.fade;
+        }
+      }
+      if (pos >= cue.end) continue;
+      const fade = Math.min(cue.fade, (cue.end - cue.start) / 2);
+      const rw = Math.min(ramp(pos - cue.start, fade), ramp(cue.end - pos, fade));
+      switch (cue.kind) {
+        case 'intensity': f.intensity *= lerp(1, cue.value, rw); break;
+        case 'ripples': f.ripples *= lerp(1, cue.value, rw); break;
+        case 'camera':
+          f.camera.orbit += cue.camera.orbit * rw;
+          f.camera.tilt += cue.camera.tilt * rw;
+          f.camera.zoom *= lerp(1, cue.camera.zoom, rw);
+          break;
+        // The latest range to start wins; the palette blend eases to it.
+        case 'palette': f.palette = cue.palette; break;
+      }
+    }
+    return f;
+  }
+
+  // After a source switch nothing counts as crossed until playback has a position again.
+  public reset() {
+    this.lastPosition = -1;
+  }
+}
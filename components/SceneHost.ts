@@ -0,0 +1,159 @@
+import * as THREE from 'three';
+import type { Track, Visualizer } from '../types';
+import { QualityGovernor } from './QualityGovernor';
+import { SCENES, FALLBACK_SCENE } from './SceneRegistry';
+import { disableWebGL, isWebGLUsable } from './WebGLSupport';
+import type { SceneEntry } from './SceneRegistry';
+import type { SpectrumSource } from './AudioFeatures';
+
+// One long-lived WebGL renderer and one live scene for the whole app. The data view and the
+// immersive view attach the same scene instance to their own container in turn, so switching
+// views moves a canvas rather than opening a context and compiling shaders again. Frame
+// exports still create their own renderer: they draw at another size while this one runs.
+
+// The data view only shows the scene through the lens, so it renders a cheaper preview.
+const PREVIEW_RENDER_SCALE = 0.5;
+// How long a lost context may take to come back before the app gives up on WebGL.
+const RESTORE_TIMEOUT_MS = 3000;
+
+export interface AttachOptions {
+  // A preview renders at reduced scale and yields the canvas to a full view.
+  preview?: boolean;
+}
+
+interface Mount {
+  container: HTMLElement;
+  preview: boolean;
+}
+
+interface HostedScene {
+  entry: SceneEntry;
+  analyser: SpectrumSource;
+  visualizer: Visualizer;
+  canvas: HTMLCanvasElement;
+  governor: QualityGovernor;
+}
+
+let renderer: THREE.WebGLRenderer | null = null;
+let canvas2d: HTMLCanvasElement | null = null;
+let hosted: HostedScene | null = null;
+let mounts: Mount[] = [];
+let governorFrame = 0;
+let restoreTimer = 0;
+
+const fillContainer = (canvas: HTMLCanvasElement) => {
+  Object.assign(canvas.style, { position: 'absolute', inset: '0', width: '100%', height: '100%', display: 'block' });
+  return canvas;
+};
+
+// Null when no context can be had; WebGL is then off for the session.
+const getRenderer = (): THREE.WebGLRenderer | null => {
+  if (renderer || !isWebGLUsable()) return renderer;
+  try {
+    // Alpha so the orb scene can sit on the view's backdrop; the other scenes clear opaque.
+    renderer = new THREE.WebGLRenderer({ canvas: fillContainer(document.createElement('canvas')), antialias: true, alpha: true });
+  } catch (e) {
+    console.error('Could not create a WebGL renderer:', e);
+    disableWebGL('unsupported');
+    return null;
+  }
+  // Scenes rebuild their GPU resources when the context comes back; if it doesn't, fall back to 2D.
+  const canvas = renderer.domElement;
+  canvas.addEventListener('webglcontextlost', () => {
+    clearTimeout(restoreTimer);
+    restoreTimer = window.setTimeout(() => disableWebGL('lost'), RESTORE_TIMEOUT_MS);
+  });
+  canvas.addEventListener('webglcontextrestored', () => clearTimeout(restoreTimer));
+  return renderer;
+};
+
+const get2dCanvas = () => (canvas2d ??= fillContainer(document.createElement('canvas')));
+
+// Measures the page's frame rate while a scene is on screen and steps its quality tier.
+const startGovernor = (scene: HostedScene) => {
+  cancelAnimationFrame(governorFrame);
+  // The first tick only opens a window, so time spent detached never counts as a slow frame.
+  let last = -Infinity;
+  governorFrame = requestAnimationFrame(function tick(now) {
+    governorFrame = requestAnimationFrame(tick);
+    const next = scene.governor.frame(now, now - last);
+    last = now;
+    if (next !== null) scene.visualizer.setQuality(next);
+  });
+};
+
+const stopGovernor = () => {
+  cancelAnimationFrame(governorFrame);
+  governorFrame = 0;
+};
+
+const destroyHosted = () => {
+  if (!hosted) return;
+  stopGovernor();
+  hosted.visualizer.destroy();
+  hosted.canvas.remove();
+  hosted = null;
+};
+
+// Both views are mounted while one animates over the other. The full view wins the canvas over
+// a preview, and otherwise the latest attach does.
+const topMount = (): Mount | undefined => {
+  for (let i = mounts.length - 1; i >= 0; i--) if (!mounts[i].preview) return mounts[i];
+  return mounts[mounts.length - 1];
+};
+
+// Moves the canvas to the top mount, or pauses the scene when nothing shows it.
+const place = () => {
+  if (!hosted) return;
+  const top = topMount();
+  if (!top) {
+    stopGovernor();
+    hosted.visualizer.pause?.();
+    hosted.canvas.remove();
+    return;
+  }
+  if (hosted.canvas.parentElement !== top.container) top.container.appendChild(hosted.canvas);
+  hosted.visualizer.setRenderScale(top.preview ? PREVIEW_RENDER_SCALE : 1);
+  hosted.visualizer.resume?.();
+  if (!governorFrame && hosted.entry.qualityTiers.length > 1) startGovernor(hosted);
+};
+
+// Shows the scene for `entry` in `container`, reusing the live instance when the scene and the
+// audio source are unchanged. A different scene replaces it.
+export const attachScene = (
+  container: HTMLElement,
+  entry: SceneEntry,
+  analyser: SpectrumSource,
+  track: Track,
+  { preview = false }: AttachOptions = {},
+): Visualizer => {
+  const shared = entry.webgl ? getRenderer() : null;
+  // The views pick the fallback themselves once told WebGL is off; this covers the attach that found out.
+  if (entry.webgl && !shared) entry = SCENES[FALLBACK_SCENE];
+  if (hosted && (hosted.entry !== entry || hosted.analyser !== analyser)) destroyHosted();
+
+  mounts = mounts.filter(m => m.container !== container).concat({ container, preview });
+
+  if (!hosted) {
+    const canvas = shared ? shared.domElement : get2dCanvas();
+    // Scenes measure their container in init, so the canvas goes in first.
+    topMount()!.container.appendChild(canvas);
+    const visualizer = entry.create(canvas, analyser, track, undefined, shared ?? undefined);
+    hosted = { entry, analyser, visualizer, canvas, governor: new QualityGovernor(entry.qualityTiers.length) };
+    visualizer.init();
+  } else {
+    hosted.visualizer.setPalette(track.palette);
+  }
+  place();
+  return hosted.visualizer;
+};
+
+// Forgets `container`. The scene moves to another mounted view or pauses, and stays alive.
+export const detachScene = (container: HTMLElement) => {
+  const count = mounts.length;
+  mounts = mounts.filter(m => m.container !== container);
+  if (mounts.length !== count) place();
+};
+
+// The canvas the live scene draws into, for capturing it.
+export const getSceneCanvas = (): HTMLCanvasElement | null => hosted?.canvas ?? null;
@@ -0,0 +1,24 @@
+// Tunable constants a scene exposes to the tuning panel. Scenes read their values by key
+// from a plain record so presets can be stored and exchanged as JSON.
+
+export interface SceneParam {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  value: number;  // default
+}
+
+export type SceneParamValues = Record<string, number>;
+
+export const defaultParams = (specs: SceneParam[]): SceneParamValues =>
+  Object.fromEntries(specs.map(p => [p.key, p.value]));
+
+// Fills gaps with defaults, clamps to each range and drops keys the scene doesn't declare,
+// so stale or hand-edited presets can't push a scene out of bounds.
+export const resolveParams = (specs: SceneParam[], values: Partial<SceneParamValues> = {}): SceneParamValues =>
+  Object.fromEntries(specs.map(p => {
+    const v = values[p.key];
+    return [p.key, typeof v === 'number' && isFinite(v) ? Math.max(p.min, Math.min(p.max, v)) : p.value];
+  }));
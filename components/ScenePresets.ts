@@ -0,0 +1,61 @@
+import type { SceneId } from '../types';
+import { SCENES } from './SceneRegistry';
+import { resolveParams } from './SceneParams';
+import type { SceneParamValues } from './SceneParams';
+
+// Named tuning presets, kept per track in localStorage and exchanged as JSON files:
+// { "version": 1, "trackId": "...", "presets": [{ "name", "scene", "params": { key: number } }] }
+
+export interface ScenePreset {
+  name: string;
+  scene: SceneId;
+  params: SceneParamValues;
+}
+
+export const PRESETS_VERSION = 1;
+
+const storageKey = (trackId: string) => `sound-of-me:presets:${trackId}`;
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+// Entries that don't name a known scene are dropped; params are clamped to the scene's ranges.
+export const parsePresets = (raw: unknown): ScenePreset[] => {
+  const list = isObject(raw) ? raw.presets : raw;
+  if (!Array.isArray(list)) throw new Error('Expected a preset file with a "presets" array.');
+  return list.flatMap((p): ScenePreset[] => {
+    if (!isObject(p) || typeof p.name !== 'string' || !p.name.trim()) return [];
+    if (typeof p.scene !== 'string' || !Object.hasOwn(SCENES, p.scene)) return [];
+    const scene = p.scene as SceneId;
+    const params = isObject(p.params) ? (p.params as Partial<SceneParamValues>) : {};
+    return [{ name: p.name.trim(), scene, params: resolveParams(SCENES[scene].params, params) }];
+  });
+};
+
+export const loadPresets = (trackId: string): ScenePreset[] => {
+  try {
+    const stored = localStorage.getItem(storageKey(trackId));
+    return stored ? parsePresets(JSON.parse(stored)) : [];
+  } catch (e) {
+    console.warn('Ignoring unreadable presets:', e);
+    return [];
+  }
+};
+
+export const savePresets = (trackId: string, presets: ScenePreset[]) => {
+  try {
+    if (presets.length) localStorage.setItem(storageKey(trackId), JSON.stringify({ version: PRESETS_VERSION, presets }));
+    else localStorage.removeItem(storageKey(trackId));
+  } catch (e) {
+    console.warn('Could not save presets:', e);
+  }
+};
+
+// Same name and scene replaces; otherwise appends.
+export const upsertPreset = (presets: ScenePreset[], preset: ScenePreset): ScenePreset[] => {
+  const i = presets.findIndex(p => p.name === preset.name && p.scene === preset.scene);
+  return i < 0 ? [...presets, preset] : presets.map((p, j) => (j === i ? preset : p));
+};
+
+export const presetsToBlob = (trackId: string, presets: ScenePreset[]): Blob =>
+  new Blob([JSON.stringify({ version: PRESETS_VERSION, trackId, presets }, null, 2)], { type: 'application/json' });
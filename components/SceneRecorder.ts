@@ -0,0 +1,67 @@
+// Captures a scene canvas together with the app's audio into a WebM file.
+const MIME_TYPES = [
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm',
+];
+
+export const isRecordingSupported = (): boolean =>
+  typeof MediaRecorder !== 'undefined' && 'captureStream' in HTMLCanvasElement.prototype;
+
+const pickMimeType = (): string =>
+  MIME_TYPES.find(t => MediaRecorder.isTypeSupported(t)) ?? '';
+
+export class SceneRecorder {
+  private recorder: MediaRecorder;
+  private audioTap: MediaStreamAudioDestinationNode;
+  private audioSource: AudioNode;
+  private chunks: Blob[] = [];
+  private stopped: Promise<Blob>;
+
+  // `audioSource` is tapped, not rerouted: what the listener hears is unchanged.
+  constructor(canvas: HTMLCanvasElement, audioSource: AudioNode, fps = 60) {
+    this.audioSource = audioSource;
+    this.audioTap = (audioSource.context as AudioContext).createMediaStreamDestination();
+    audioSource.connect(this.audioTap);
+
+    const stream = new MediaStream([
+      ...canvas.captureStream(fps).getVideoTracks(),
+      ...this.audioTap.stream.getAudioTracks(),
+    ]);
+    const mimeType = pickMimeType();
+    this.recorder = new MediaRecorder(stream, {
+      mimeType: mimeType || undefined,
+      videoBitsPerSecond: 12_000_000,
+    });
+    this.recorder.ondataavailable = (e) => { if (e.data.size) this.chunks.push(e.data); };
+    this.stopped = new Promise(resolve => {
+      this.recorder.onstop = () => {
+        stream.getTracks().forEach(t => t.stop());
+        this.audioSource.disconnect(this.audioTap);
+        resolve(new Blob(this.chunks, { type: mimeType || 'video/webm' }));
+      };
+    });
+  }
+
+  public start() {
+    this.recorder.start(1000);
+  }
+
+  public get isRecording(): boolean {
+    return this.recorder.state === 'recording';
+  }
+
+  public stop(): Promise<Blob> {
+    if (this.recorder.state !== 'inactive') this.recorder.stop();
+    return this.stopped;
+  }
+}
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
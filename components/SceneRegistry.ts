@@ -0,0 +1,74 @@
+import type { WebGLRenderer } from 'three';
+import type { Track, SceneId, Visualizer } from '../types';
+import { ThreeScene, THREE_SCENE_PARAMS, THREE_QUALITY_TIERS } from './ThreeScene';
+import { JourneyScene, JOURNEY_SCENE_PARAMS, JOURNEY_QUALITY_TIERS } from './JourneyScene';
+import { BelieverScene, BELIEVER_SCENE_PARAMS, BELIEVER_QUALITY_TIERS } from './BelieverScene';
+import { EmotionScene, EMOTION_SCENE_PARAMS, EMOTION_QUALITY_TIERS } from './EmotionScene';
+import { isWebGLUsable } from './WebGLSupport';
+import type { SceneParam } from './SceneParams';
+import type { QualityTier } from './QualityGovernor';
+import type { SpectrumSource } from './AudioFeatures';
+import type { FrameDriver } from './FrameDriver';
+
+export interface SceneEntry {
+  id: SceneId;
+  label: string;
+  // WebGL scenes own their canvas context; 2D scenes are drawn inline by the lens.
+  webgl: boolean;
+  // Where the scene sits on the valence/arousal grid (-1..1), for matching classified tracks.
+  character: { valence: number; arousal: number };
+  params: SceneParam[];
+  // Cheapest first; scenes start on the last one.
+  qualityTiers: QualityTier[];
+  // WebGL scenes draw with `renderer` when given (its canvas is `canvas`) instead of making their own.
+  create: (canvas: HTMLCanvasElement, analyser: SpectrumSource, track: Track, driver?: FrameDriver, renderer?: WebGLRenderer) => Visualizer;
+}
+
+export const DEFAULT_SCENE: SceneId = 'emotion';
+// Drawn with the 2D canvas, so it runs where WebGL doesn't.
+export const FALLBACK_SCENE: SceneId = 'emotion';
+
+export const SCENES: Record<SceneId, SceneEntry> = {
+  three: {
+    id: 'three',
+    label: 'Pulse orb',
+    webgl: true,
+    character: { valence: 0.2, arousal: 0.5 },
+    params: THREE_SCENE_PARAMS,
+    qualityTiers: THREE_QUALITY_TIERS,
+    create: (canvas, analyser, track, driver, renderer) => new ThreeScene(canvas, analyser, track, driver, renderer),
+  },
+  journey: {
+    id: 'journey',
+    label: 'Ripples',
+    webgl: true,
+    character: { valence: 0.6, arousal: 0 },
+    params: JOURNEY_SCENE_PARAMS,
+    qualityTiers: JOURNEY_QUALITY_TIERS,
+    create: (canvas, analyser, track, driver, renderer) => new JourneyScene(canvas, analyser, track, driver, renderer),
+  },
+  believer: {
+    id: 'believer',
+    label: 'Fire',
+    webgl: true,
+    character: { valence: -0.4, arousal: 0.8 },
+    params: BELIEVER_SCENE_PARAMS,
+    qualityTiers: BELIEVER_QUALITY_TIERS,
+    create: (canvas, analyser, track, driver, renderer) => new BelieverScene(canvas, analyser, track, driver, renderer),
+  },
+  emotion: {
+    id: 'emotion',
+    label: 'Emotion',
+    webgl: false,
+    character: { valence: 0, arousal: -0.6 },
+    params: EMOTION_SCENE_PARAMS,
+    qualityTiers: EMOTION_QUALITY_TIERS,
+    create: (canvas, analyser, track, driver) => new EmotionScene(canvas, analyser, track, driver),
+  },
+};
+
+// Own keys only, so a stray "constructor" can't resolve to Object.
+export const getSceneForTrack = (track: Track): SceneEntry => {
+  const entry = track.scene && Object.hasOwn(SCENES, track.scene) ? SCENES[track.scene] : SCENES[DEFAULT_SCENE];
+  return entry.webgl && !isWebGLUsable() ? SCENES[FALLBACK_SCENE] : entry;
+};
@@ -1,130 +1,228 @@
-
-import React, { useRef, useEffect, useCallback } from 'react';
-import type { Track, Particle } from '../types';
-import { renderEmotionScene, ensureParticles } from './EmotionRenderer';
-import { ThreeScene } from './ThreeScene';
-import { JourneyScene } from './JourneyScene';
-import { BelieverScene } from './BelieverScene';
+import React, { useRef, useEffect, useLayoutEffect, useState, useCallback, useMemo } from 'react';
+import type { Track, SceneId, Visualizer, LensOrigin } from '../types';
+import { trackLabel } from '../constants';
+import { getSceneForTrack } from './SceneRegistry';
+import { SceneRecorder, isRecordingSupported, downloadBlob } from './SceneRecorder';
+import FrameExport from './FrameExport';
+import TuningPanel from './TuningPanel';
+import SafetyToggle from './SafetyToggle';
+import { resolveParams } from './SceneParams';
+import { attachScene, detachScene, getSceneCanvas } from './SceneHost';
+import { getMotionSafety } from './MotionSafety';
+import { getAudioFeatures } from './AudioFeatures';
+import { formatHzRange } from './SpectrumDisplay';
+import LyricsOverlay from './LyricsOverlay';
+import LyricsControls from './LyricsControls';
+import CueEditor from './CueEditor';
+import { loadLyricsSettings, saveLyricsSettings } from './Lyrics';
+import type { Lyrics, LyricsSettings } from './Lyrics';
+import type { SceneCue } from './SceneCues';
+import type { FrequencyBand } from './AudioFeatures';
+import type { SceneParamValues } from './SceneParams';
 
 interface SceneViewProps {
   analyser: AnalyserNode | null;
   currentTrack: Track;
   onBack: () => void;
+  // Set while the view opens out of the data view's lens or closes back into it.
+  transition?: 'enter' | 'leave' | null;
+  origin?: LensOrigin | null;  // the screen center when entered without the lens
+  onTransitionEnd?: () => void;
+  // Band picked with the lens; the scene is driven by it until cleared.
+  focus?: FrequencyBand | null;
+  onClearFocus?: () => void;
+  // Time-synced lyrics for the track, read against the element's playback position.
+  lyrics?: Lyrics | null;
+  audio?: HTMLAudioElement | null;
+  // The track's scripted cues; the editor shows when they can be changed.
+  cues?: SceneCue[] | null;
+  onCuesChange?: (cues: SceneCue[] | null) => void;
 }
 
-const avg = (arr: Uint8Array, s: number, e: number): number => {
-    let sum = 0, n = 0;
-    for (let i = s; i <= e && i < arr.length; i++) {
-        sum += arr[i];
-        n++;
+const LENS_TRANSITION_MS = 650;
+
+const formatElapsed = (s: number) => `${Math.floor(s / 60)}:${String(s % 60).padStart(2, '0')}`;
+
+const easeInOutCubic = (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2);
+
+const SceneView: React.FC<SceneViewProps> = ({ analyser, currentTrack, onBack, transition = null, origin = null, onTransitionEnd, focus = null, onClearFocus, lyrics = null, audio = null, cues = null, onCuesChange }) => {
+  const rootRef = useRef<HTMLDivElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  // Radius of the circle the view is clipped to; null once fully open.
+  const clipRadius = useRef<number | null>(transition === 'enter' ? (origin?.r ?? 0) : null);
+  const onTransitionEndRef = useRef(onTransitionEnd);
+  onTransitionEndRef.current = onTransitionEnd;
+  const visualizerRef = useRef<Visualizer | null>(null);
+  const recorderRef = useRef<SceneRecorder | null>(null);
+  const [recordingSince, setRecordingSince] = useState<number | null>(null);
+  const [elapsed, setElapsed] = useState(0);
+  const sceneEntry = getSceneForTrack(currentTrack);
+  const trackRef = useRef(currentTrack);
+  trackRef.current = currentTrack;
+  // Tuning is kept per scene for the session, so it survives switching tracks.
+  const [tuning, setTuning] = useState<Partial<Record<SceneId, SceneParamValues>>>({});
+  const sceneTuning = tuning[sceneEntry.id];
+  const params = useMemo(() => resolveParams(sceneEntry.params, sceneTuning), [sceneEntry, sceneTuning]);
+  const paramsRef = useRef(params);
+  paramsRef.current = params;
+  const [lyricsSettings, setLyricsSettings] = useState(loadLyricsSettings);
+
+  const handleLyricsSettingsChange = useCallback((value: LyricsSettings) => {
+    setLyricsSettings(value);
+    saveLyricsSettings(value);
+  }, []);
+
+  const stopRecording = useCallback(() => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+    recorderRef.current = null;
+    setRecordingSince(null);
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    recorder.stop()
+      .then(blob => downloadBlob(blob, `${trackRef.current.id}-${stamp}.webm`))
+      .catch(e => console.error("Error finishing recording:", e));
+  }, []);
+
+  const startRecording = useCallback(() => {
+    const canvas = getSceneCanvas();
+    if (!canvas || !analyser || recorderRef.current) return;
+    try {
+      const recorder = new SceneRecorder(canvas, analyser);
+      recorder.start();
+      recorderRef.current = recorder;
+      setElapsed(0);
+      setRecordingSince(performance.now());
+    } catch (e) {
+      console.error("Error starting recording:", e);
     }
-    return n ? sum / n : 0;
-};
+  }, [analyser]);
 
-const SceneView: React.FC<SceneViewProps> = ({ analyser, currentTrack, onBack }) => {
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const visualizerRef = useRef<{ destroy: () => void } | null>(null);
+  // The captured canvas goes away with the scene, so finish the clip with it.
+  useEffect(() => stopRecording, [stopRecording, sceneEntry]);
 
   useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas || !analyser) return;
-
-    // Defer initialization to allow the previous view's resources to release.
-    const timeoutId = setTimeout(() => {
-        // Clean up any existing visualizer before creating a new one
-        if (visualizerRef.current) {
-          visualizerRef.current.destroy();
-          visualizerRef.current = null;
-        }
-
-        if (currentTrack.id === 'too-sweet') {
-          const threeScene = new ThreeScene(canvas, analyser, currentTrack);
-          threeScene.init();
-          visualizerRef.current = {
-            destroy: () => threeScene.destroy(),
-          };
-        } else if (currentTrack.id === 'journey') {
-          const journeyScene = new JourneyScene(canvas, analyser, currentTrack);
-          journeyScene.init();
-           visualizerRef.current = {
-            destroy: () => journeyScene.destroy(),
-          };
-        } else if (currentTrack.id === 'believer') {
-          const believerScene = new BelieverScene(canvas, analyser, currentTrack);
-          believerScene.init();
-          visualizerRef.current = {
-            destroy: () => believerScene.destroy(),
-          };
-        } else {
-          // Fallback to 2D renderer for other tracks
-          const dataArray = new Uint8Array(analyser.frequencyBinCount);
-          const particles: Particle[] = [];
-          let animationFrameId: number;
-    
-          const resize2D = () => {
-            if (!canvas) return; // Canvas might be gone if component unmounts quickly
-            const dpr = Math.min(2, window.devicePixelRatio || 1);
-            const { clientWidth, clientHeight } = canvas;
-            canvas.width = Math.round(clientWidth * dpr);
-            canvas.height = Math.round(clientHeight * dpr);
-            const ctx = canvas.getContext('2d');
-            ctx?.scale(dpr, dpr);
-          };
-    
-          const render2DScene = () => {
-            animationFrameId = requestAnimationFrame(render2DScene);
-            if (!canvas) return;
-            const ctx = canvas.getContext('2d');
-            if (!ctx || !analyser) return;
-    
-            analyser.getByteFrequencyData(dataArray);
-            const { clientWidth: w, clientHeight: h } = canvas;
-            ctx.clearRect(0, 0, w, h);
-            
-            const mid = avg(dataArray, 64, 256) / 255;
-            const count = Math.floor(140 + mid * 260);
-            const currentParticles = ensureParticles(particles, count, w, h);
-            
-            renderEmotionScene(ctx, currentTrack, dataArray, currentParticles, w, h);
-          };
-          
-          resize2D();
-          window.addEventListener('resize', resize2D);
-          render2DScene();
-    
-          visualizerRef.current = {
-            destroy: () => {
-              cancelAnimationFrame(animationFrameId);
-              window.removeEventListener('resize', resize2D);
-            },
-          };
-        }
-    }, 16); // A 16ms delay is roughly one frame, a safe bet.
-
-    // Cleanup for the effect
+    if (recordingSince === null) return;
+    const id = setInterval(() => setElapsed(Math.floor((performance.now() - recordingSince) / 1000)), 250);
+    return () => clearInterval(id);
+  }, [recordingSince]);
+
+  // Coming from the data view this picks up the scene already running there.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !analyser) return;
+    const visualizer = attachScene(container, sceneEntry, analyser, trackRef.current);
+    visualizer.setParams(paramsRef.current);
+    visualizerRef.current = visualizer;
     return () => {
-      clearTimeout(timeoutId);
-      if (visualizerRef.current) {
-        visualizerRef.current.destroy();
-        visualizerRef.current = null;
+      visualizerRef.current = null;
+      detachScene(container);
+    };
+  }, [analyser, sceneEntry]);
+
+  // The view is clipped to a circle that grows from the lens to cover the screen, or shrinks back
+  // to it. A reversal mid-way carries on from the current radius. Runs before paint so the first
+  // frame of an enter is already clipped.
+  useLayoutEffect(() => {
+    const el = rootRef.current;
+    if (!el || !transition) return;
+    const x = origin?.x ?? window.innerWidth / 2;
+    const y = origin?.y ?? window.innerHeight / 2;
+    const full = Math.hypot(Math.max(x, window.innerWidth - x), Math.max(y, window.innerHeight - y));
+    const from = clipRadius.current ?? full;
+    const to = transition === 'enter' ? full : 0;
+    const duration = getMotionSafety().reducedMotion ? 0 : LENS_TRANSITION_MS * Math.abs(to - from) / full;
+    const start = performance.now();
+    let frameId = 0;
+    const tick = (now: number) => {
+      const t = duration > 0 ? Math.min(1, (now - start) / duration) : 1;
+      const r = from + (to - from) * easeInOutCubic(t);
+      clipRadius.current = r;
+      el.style.clipPath = `circle(${r}px at ${x}px ${y}px)`;
+      if (t < 1) {
+        frameId = requestAnimationFrame(tick);
+        return;
+      }
+      if (transition === 'enter') {
+        clipRadius.current = null;
+        el.style.clipPath = '';
       }
+      onTransitionEndRef.current?.();
     };
-  }, [analyser, currentTrack]);
+    tick(start);
+    return () => cancelAnimationFrame(frameId);
+  }, [transition, origin]);
+
+  useEffect(() => {
+    if (!analyser) return;
+    const features = getAudioFeatures(analyser);
+    features.setFocus(focus);
+    return () => features.setFocus(null);
+  }, [analyser, focus]);
+
+  // A new track on the same scene keeps it (and any recording) running and eases to the new palette.
+  useEffect(() => {
+    visualizerRef.current?.setPalette(currentTrack.palette);
+  }, [currentTrack]);
+
+  useEffect(() => {
+    visualizerRef.current?.setParams(params);
+  }, [params]);
+
+  const handleParamsChange = useCallback((values: SceneParamValues) => {
+    setTuning(prev => ({ ...prev, [sceneEntry.id]: values }));
+  }, [sceneEntry]);
 
   return (
-    <div className="fixed inset-0 bg-[#050505] z-20">
+    <div ref={rootRef} className="fixed inset-0 bg-[#050505] z-20">
       <div className="absolute inset-x-4 top-4 flex items-center justify-between z-10">
-        <div className="text-xs text-zinc-300 border border-zinc-800 rounded-full px-3 py-1.5 bg-[rgba(10,10,10,0.7)] backdrop-blur-md">
-            {currentTrack.title} • {currentTrack.mood}
+        <div className="flex items-center gap-2">
+          <div className="text-xs text-zinc-300 border border-zinc-800 rounded-full px-3 py-1.5 bg-[rgba(10,10,10,0.7)] backdrop-blur-md">
+              {trackLabel(currentTrack)} • {currentTrack.mood}
+          </div>
+          {focus && (
+            <button
+              onClick={onClearFocus}
+              title="The scene follows this band. Click to use the whole spectrum again."
+              className="text-xs text-[#eaf6ff] border border-[#3aa6ff] rounded-full px-3 py-1.5 bg-[rgba(10,10,10,0.7)] backdrop-blur-md cursor-pointer"
+            >
+              ◎ {formatHzRange(focus.low, focus.high)} ✕
+            </button>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          {lyrics && <LyricsControls value={lyricsSettings} onChange={handleLyricsSettingsChange} />}
+          <SafetyToggle />
+          {onCuesChange && (
+            <CueEditor scene={sceneEntry} trackId={currentTrack.id} palette={currentTrack.palette} cues={cues} audio={audio} onChange={onCuesChange} />
+          )}
+          <TuningPanel scene={sceneEntry} trackId={currentTrack.id} values={params} onChange={handleParamsChange} />
+          <FrameExport track={currentTrack} params={params} />
+          {isRecordingSupported() && (
+            <button
+              onClick={recordingSince === null ? startRecording : stopRecording}
+              title={recordingSince === null ? 'Record the scene with its audio to a WebM file' : 'Stop and download'}
+              className={`text-xs border rounded-full px-3 py-1.5 bg-[rgba(10,10,10,0.7)] backdrop-blur-md cursor-pointer transition-colors
+                ${recordingSince === null
+                  ? 'text-zinc-300 border-zinc-800 hover:border-zinc-600 hover:text-white'
+                  : 'text-[#ff6b6b] border-[#ff6b6b]'
+                }`}
+            >
+              {recordingSince === null ? '● Record' : `■ Stop ${formatElapsed(elapsed)}`}
+            </button>
+          )}
+          <button
+            onClick={onBack}
+            title="Esc"
+            className="text-xs text-zinc-300 border border-zinc-800 rounded-full px-3 py-1.5 bg-[rgba(10,10,10,0.7)] backdrop-blur-md cursor-pointer hover:border-zinc-600 hover:text-white transition-colors"
+          >
+            ← Back to data
+          </button>
         </div>
-        <button
-          onClick={onBack}
-          className="text-xs text-zinc-300 border border-zinc-800 rounded-full px-3 py-1.5 bg-[rgba(10,10,10,0.7)] backdrop-blur-md cursor-pointer hover:border-zinc-600 hover:text-white transition-colors"
-        >
-          ← Back to data
-        </button>
       </div>
-      <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+      <div ref={containerRef} className="absolute inset-0" />
+      {lyrics && (
+        <LyricsOverlay lyrics={lyrics} audio={audio} analyser={analyser} palette={currentTrack.palette} settings={lyricsSettings} />
+      )}
     </div>
   );
 };
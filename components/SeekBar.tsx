@@ -0,0 +1,110 @@
+import React, { useRef, useEffect, useState } from 'react';
+
+interface SeekBarProps {
+  audio: HTMLAudioElement | null;
+  waveform: { min: number[]; max: number[] } | null;
+  onSeek: (seconds: number) => void;
+}
+
+export const formatTime = (s: number) => {
+  if (!isFinite(s) || s < 0) s = 0;
+  const m = Math.floor(s / 60);
+  return `${m}:${String(Math.floor(s % 60)).padStart(2, '0')}`;
+};
+
+// Progress is drawn straight from the <audio> element each frame rather than through React state.
+const SeekBar: React.FC<SeekBarProps> = ({ audio, waveform, onSeek }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const elapsedRef = useRef<HTMLSpanElement>(null);
+  const remainingRef = useRef<HTMLSpanElement>(null);
+  const scrubRef = useRef<number | null>(null);
+  const [isScrubbing, setIsScrubbing] = useState(false);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    let frameId = 0;
+
+    const draw = () => {
+      frameId = requestAnimationFrame(draw);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      const dpr = Math.min(2, window.devicePixelRatio || 1);
+      const { clientWidth: w, clientHeight: h } = canvas;
+      if (canvas.width !== Math.round(w * dpr) || canvas.height !== Math.round(h * dpr)) {
+        canvas.width = Math.round(w * dpr);
+        canvas.height = Math.round(h * dpr);
+      }
+      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+      ctx.clearRect(0, 0, w, h);
+
+      const duration = audio?.duration ?? 0;
+      const time = scrubRef.current ?? audio?.currentTime ?? 0;
+      const progress = isFinite(duration) && duration > 0 ? Math.min(1, time / duration) : 0;
+      const playedX = progress * w;
+
+      if (waveform && waveform.max.length) {
+        const cols = waveform.max.length;
+        const mid = h / 2;
+        for (let x = 0; x < w; x++) {
+          const c = Math.min(cols - 1, Math.floor((x / w) * cols));
+          const top = mid - waveform.max[c] * mid;
+          const bottom = mid - waveform.min[c] * mid;
+          ctx.fillStyle = x < playedX ? '#9aa0a6' : '#2a2a2a';
+          ctx.fillRect(x, top, 1, Math.max(1, bottom - top));
+        }
+      } else {
+        ctx.fillStyle = '#2a2a2a';
+        ctx.fillRect(0, h / 2 - 1, w, 2);
+        ctx.fillStyle = '#9aa0a6';
+        ctx.fillRect(0, h / 2 - 1, playedX, 2);
+      }
+      ctx.fillStyle = '#eaf6ff';
+      ctx.fillRect(Math.round(playedX) - 1, 0, 2, h);
+
+      if (elapsedRef.current) elapsedRef.current.textContent = formatTime(time);
+      if (remainingRef.current) remainingRef.current.textContent = `-${formatTime((isFinite(duration) ? duration : 0) - time)}`;
+    };
+    draw();
+    return () => cancelAnimationFrame(frameId);
+  }, [audio, waveform]);
+
+  const timeAt = (e: React.PointerEvent) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    const duration = audio && isFinite(audio.duration) ? audio.duration : 0;
+    return Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)) * duration;
+  };
+
+  const onPointerDown = (e: React.PointerEvent) => {
+    if (!audio || !isFinite(audio.duration)) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    scrubRef.current = timeAt(e);
+    setIsScrubbing(true);
+  };
+  const onPointerMove = (e: React.PointerEvent) => {
+    if (scrubRef.current !== null) scrubRef.current = timeAt(e);
+  };
+  const onPointerUp = (e: React.PointerEvent) => {
+    if (scrubRef.current === null) return;
+    onSeek(timeAt(e));
+    scrubRef.current = null;
+    setIsScrubbing(false);
+  };
+
+  return (
+    <div className="flex items-center gap-3 text-[11px] tabular-nums text-zinc-500">
+      <span ref={elapsedRef} className="w-10 text-right">0:00</span>
+      <canvas
+        ref={canvasRef}
+        className={`flex-1 h-7 touch-none ${isScrubbing ? 'cursor-grabbing' : 'cursor-pointer'}`}
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={onPointerUp}
+        onPointerCancel={() => { scrubRef.current = null; setIsScrubbing(false); }}
+      />
+      <span ref={remainingRef} className="w-10">-0:00</span>
+    </div>
+  );
+};
+
+export default SeekBar;
@@ -0,0 +1,54 @@
+import React from 'react';
+import type { FrequencyScale, SpectrumDisplaySettings } from './SpectrumDisplay';
+
+interface SpectrumControlsProps {
+  value: SpectrumDisplaySettings;
+  onChange: (value: SpectrumDisplaySettings) => void;
+}
+
+const SCALES: { id: FrequencyScale; label: string; title: string }[] = [
+  { id: 'linear', label: 'Lin', title: 'Linear frequency axis' },
+  { id: 'log', label: 'Log', title: 'Logarithmic frequency axis, one octave per equal width' },
+  { id: 'mel', label: 'Mel', title: 'Mel scale, spaced the way pitch is heard' },
+];
+
+const pill = (active: boolean) =>
+  `px-2.5 py-1 cursor-pointer transition-colors ${active ? 'text-[#eaf6ff] bg-[rgba(58,166,255,0.15)]' : 'text-zinc-400 hover:text-white'}`;
+
+const SpectrumControls: React.FC<SpectrumControlsProps> = ({ value, onChange }) => {
+  const set = (patch: Partial<SpectrumDisplaySettings>) => onChange({ ...value, ...patch });
+  const bars = value.style === 'bars';
+  return (
+    <div className="flex items-center gap-2 text-xs">
+      <div className="flex rounded-full border border-zinc-800 bg-[rgba(10,10,10,0.7)] backdrop-blur-md overflow-hidden">
+        {SCALES.map(s => (
+          <button key={s.id} onClick={() => set({ scale: s.id })} title={s.title} aria-pressed={value.scale === s.id} className={pill(value.scale === s.id)}>
+            {s.label}
+          </button>
+        ))}
+      </div>
+      <div className="flex rounded-full border border-zinc-800 bg-[rgba(10,10,10,0.7)] backdrop-blur-md overflow-hidden">
+        <button onClick={() => set({ style: 'bars' })} aria-pressed={bars} className={pill(bars)}>Bars</button>
+        <button onClick={() => set({ style: 'spectrogram' })} title="Scrolling spectrogram, newest at the top" aria-pressed={!bars} className={pill(!bars)}>
+          Waterfall
+        </button>
+      </div>
+      <div className="flex rounded-full border border-zinc-800 bg-[rgba(10,10,10,0.7)] backdrop-blur-md overflow-hidden">
+        <button
+          onClick={() => set({ peaks: !value.peaks })}
+          disabled={!bars}
+          title="Hold each band's recent peak"
+          aria-pressed={value.peaks}
+          className={`${pill(value.peaks && bars)} disabled:opacity-40 disabled:cursor-default`}
+        >
+          Peaks
+        </button>
+        <button onClick={() => set({ axes: !value.axes })} title="Label frequency and level" aria-pressed={value.axes} className={pill(value.axes)}>
+          Axes
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SpectrumControls;
@@ -0,0 +1,193 @@
+// Layout and state for the data view's spectrum. Bins are averaged into bands spaced evenly on a
+// linear, log or mel frequency axis, so the low end gets as many bars as it deserves. The
+// analyser's byte values are already linear in dB, which is what the dB axis labels.
+
+export type FrequencyScale = 'linear' | 'log' | 'mel';
+export type SpectrumStyle = 'bars' | 'spectrogram';
+
+export interface SpectrumDisplaySettings {
+  scale: FrequencyScale;
+  style: SpectrumStyle;
+  peaks: boolean;  // peak-hold markers over the bars
+  axes: boolean;   // Hz and dB labels
+}
+
+export const DEFAULT_SPECTRUM_DISPLAY: SpectrumDisplaySettings = {
+  scale: 'linear',
+  style: 'bars',
+  peaks: false,
+  axes: false,
+};
+
+export interface SpectrumBand {
+  lo: number;   // first bin
+  hi: number;   // last bin, inclusive
+  fLo: number;  // Hz
+  fHi: number;
+}
+
+// Log and mel axes start here; below it there's nothing to see in a 2048-point FFT anyway.
+const MIN_HZ = 20;
+const MAX_HZ = 20000;
+export const HZ_TICKS = [50, 100, 200, 500, 1000, 2000, 5000, 10000, 20000];
+export const DB_TICK_STEP = 10;
+
+const PEAK_HOLD_MS = 800;
+const PEAK_FALL_PER_S = 150;  // byte units
+
+const STORAGE_KEY = 'sound-of-me:spectrum-display';
+
+const toScale: Record<FrequencyScale, (hz: number) => number> = {
+  linear: hz => hz,
+  log: hz => Math.log(hz),
+  mel: hz => 2595 * Math.log10(1 + hz / 700),
+};
+
+const fromScale: Record<FrequencyScale, (s: number) => number> = {
+  linear: s => s,
+  log: s => Math.exp(s),
+  mel: s => 700 * (10 ** (s / 2595) - 1),
+};
+
+const frequencyRange = (scale: FrequencyScale, nyquist: number): [number, number] =>
+  [scale === 'linear' ? 0 : MIN_HZ, Math.min(MAX_HZ, nyquist)];
+
+// 0..1 across the plot for a frequency, or null when it's off the axis.
+export const frequencyToFraction = (hz: number, scale: FrequencyScale, nyquist: number): number | null => {
+  const [lo, hi] = frequencyRange(scale, nyquist);
+  if (hz < lo || hz > hi) return null;
+  const s = toScale[scale];
+  return (s(hz) - s(lo)) / (s(hi) - s(lo));
+};
+
+export const buildBands = (count: number, binCount: number, nyquist: number, scale: FrequencyScale): SpectrumBand[] => {
+  const [lo, hi] = frequencyRange(scale, nyquist);
+  const sLo = toScale[scale](lo);
+  const sHi = toScale[scale](hi);
+  const binHz = nyquist / binCount;
+  const bands: SpectrumBand[] = [];
+  for (let i = 0; i < count; i++) {
+    const fLo = fromScale[scale](sLo + ((sHi - sLo) * i) / count);
+    const fHi = fromScale[scale](sLo + ((sHi - sLo) * (i + 1)) / count);
+    // Narrow low bands can fall inside one bin; they then repeat its value.
+    const first = Math.min(binCount - 1, Math.floor(fLo / binHz));
+    const last = Math.min(binCount - 1, Math.max(first, Math.ceil(fHi / binHz) - 1));
+    bands.push({ lo: first, hi: last, fLo, fHi });
+  }
+  return bands;
+};
+
+// Mean byte level of each band's bins.
+export const aggregateBands = (spectrum: Uint8Array, bands: SpectrumBand[], out: Float32Array) => {
+  for (let i = 0; i < bands.length; i++) {
+    const { lo, hi } = bands[i];
+    let sum = 0;
+    for (let k = lo; k <= hi; k++) sum += spectrum[k];
+    out[i] = sum / (hi - lo + 1);
+  }
+  return out;
+};
+
+export const formatHz = (hz: number) =>
+  hz >= 1000 ? `${+(hz / 1000).toFixed(hz >= 10000 ? 0 : 1)}k` : `${Math.round(hz)}`;
+
+export const formatHzRange = (low: number, high: number) => `${formatHz(low)}–${formatHz(high)} Hz`;
+
+// Where a band sits for labelling: geometric center, except for a band starting at 0 Hz.
+export const bandCenter = (band: SpectrumBand) => (band.fLo > 0 ? Math.sqrt(band.fLo * band.fHi) : band.fHi / 2);
+
+export const byteToDb = (v: number, minDb: number, maxDb: number) => minDb + (v / 255) * (maxDb - minDb);
+
+const NOTE_NAMES = ['C', 'C♯', 'D', 'D♯', 'E', 'F', 'F♯', 'G', 'G♯', 'A', 'A♯', 'B'];
+
+// Nearest equal-tempered note (A4 = 440 Hz) with the offset in cents, e.g. "F♯3 −8¢".
+export const nearestNote = (hz: number): string | null => {
+  if (hz < 16) return null;
+  const midi = 69 + 12 * Math.log2(hz / 440);
+  const n = Math.round(midi);
+  const cents = Math.round((midi - n) * 100);
+  const name = `${NOTE_NAMES[n % 12]}${Math.floor(n / 12) - 1}`;
+  return cents ? `${name} ${cents > 0 ? '+' : '−'}${Math.abs(cents)}¢` : name;
+};
+
+// Each band's recent maximum, held briefly and then falling at a steady rate.
+export class PeakHold {
+  public readonly values: Float32Array;
+  private heldAt: Float64Array;
+  private lastTime = -1;
+
+  constructor(count: number) {
+    this.values = new Float32Array(count);
+    this.heldAt = new Float64Array(count);
+  }
+
+  public update(levels: Float32Array, nowMs: number) {
+    const dt = this.lastTime >= 0 ? (nowMs - this.lastTime) / 1000 : 0;
+    this.lastTime = nowMs;
+    for (let i = 0; i < this.values.length; i++) {
+      if (levels[i] >= this.values[i]) {
+        this.values[i] = levels[i];
+        this.heldAt[i] = nowMs;
+      } else if (nowMs - this.heldAt[i] > PEAK_HOLD_MS) {
+        this.values[i] = Math.max(levels[i], this.values[i] - PEAK_FALL_PER_S * dt);
+      }
+    }
+  }
+}
+
+// Scrolling waterfall: one row of band levels per frame, newest at the top. Rows are kept at
+// band resolution and scaled into the plot when drawn.
+export class Spectrogram {
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D | null;
+  private row: ImageData | null;
+
+  constructor(bandCount: number, rows = 300) {
+    this.canvas = document.createElement('canvas');
+    this.canvas.width = bandCount;
+    this.canvas.height = rows;
+    this.ctx = this.canvas.getContext('2d');
+    this.row = this.ctx?.createImageData(bandCount, 1) ?? null;
+  }
+
+  public push(levels: Float32Array) {
+    if (!this.ctx || !this.row) return;
+    this.ctx.drawImage(this.canvas, 0, 1);
+    const d = this.row.data;
+    for (let i = 0; i < this.canvas.width; i++) {
+      const g = Math.round(levels[i]);
+      d[i * 4] = d[i * 4 + 1] = d[i * 4 + 2] = g;
+      d[i * 4 + 3] = 255;
+    }
+    this.ctx.putImageData(this.row, 0, 0);
+  }
+
+  public draw(ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number) {
+    ctx.drawImage(this.canvas, x, y, w, h);
+  }
+}
+
+const isScale = (v: unknown): v is FrequencyScale => v === 'linear' || v === 'log' || v === 'mel';
+const isStyle = (v: unknown): v is SpectrumStyle => v === 'bars' || v === 'spectrogram';
+
+export const loadSpectrumDisplay = (): SpectrumDisplaySettings => {
+  try {
+    const raw = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (typeof raw !== 'object' || raw === null) return DEFAULT_SPECTRUM_DISPLAY;
+    const d = DEFAULT_SPECTRUM_DISPLAY;
+    return {
+      scale: isScale(raw.scale) ? raw.scale : d.scale,
+      style: isStyle(raw.style) ? raw.style : d.style,
+      peaks: typeof raw.peaks === 'boolean' ? raw.peaks : d.peaks,
+      axes: typeof raw.axes === 'boolean' ? raw.axes : d.axes,
+    };
+  } catch {
+    return DEFAULT_SPECTRUM_DISPLAY;
+  }
+};
+
+export const saveSpectrumDisplay = (settings: SpectrumDisplaySettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch { /* private mode: keep it for the session */ }
+};
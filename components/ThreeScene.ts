@@ -3,13 +3,19 @@ import { OrbitControls } from 'three/addons/controls/OrbitControls.js';
 import { EffectComposer } from 'three/addons/postprocessing/EffectComposer.js';
 import { RenderPass } from 'three/addons/postprocessing/RenderPass.js';
 import { UnrealBloomPass } from 'three/addons/postprocessing/UnrealBloomPass.js';
-import type { Track } from '../types';
-
-const avg = (arr: Uint8Array, s: number, e: number): number => {
-  let sum = 0, n = 0;
-  for (let i = s; i <= e && i < arr.length; i++) { sum += arr[i]; n++; }
-  return n ? sum / n : 0;
-};
+import type { Track, Visualizer } from '../types';
+import { getAudioFeatures } from './AudioFeatures';
+import { realtimeDriver } from './FrameDriver';
+import { PaletteBlend } from './PaletteBlend';
+import { defaultParams, resolveParams } from './SceneParams';
+import { FlashGuard, LumaLimiter, limitsFlashes, motionScale } from './MotionSafety';
+import { renderDpr } from './QualityGovernor';
+import { NEUTRAL_CAMERA } from './SceneCues';
+import type { CameraMove } from './SceneCues';
+import type { QualityTier } from './QualityGovernor';
+import type { SceneParam, SceneParamValues } from './SceneParams';
+import type { FrameDriver } from './FrameDriver';
+import type { AudioFeatures, SpectrumSource, AudioFeatureFrame } from './AudioFeatures';
 
 // --- GLSL SHADER CODE ---
 
@@ -146,10 +152,11 @@ const backgroundVertexShader = `
 const backgroundFragmentShader = `
   uniform float u_time;
   uniform float u_treble;
+  uniform vec3 u_color;
   varying float v_random;
 
   void main() {
-    vec3 color = vec3(1.0, 0.906, 0.302);
+    vec3 color = u_color;
     float sparkle = pow(sin(u_time * 3.0 * v_random + v_random * 6.28) * 0.5 + 0.5, 20.0);
     float final_sparkle = sparkle * (0.6 + u_treble * 8.0);
     float distance_to_center = distance(gl_PointCoord, vec2(0.5));
@@ -158,13 +165,51 @@ const backgroundFragmentShader = `
   }
 `;
 
-export class ThreeScene {
+export const THREE_SCENE_PARAMS: SceneParam[] = [
+  { key: 'particleCount', label: 'Particles', min: 2000, max: 40000, step: 1000, value: 20000 },
+  { key: 'bloomStrength', label: 'Bloom strength', min: 0, max: 2, step: 0.05, value: 0.5 },
+  { key: 'bloomStrengthBass', label: 'Bloom × bass', min: 0, max: 5, step: 0.1, value: 2.0 },
+  { key: 'bloomRadius', label: 'Bloom radius', min: 0, max: 1, step: 0.05, value: 0.2 },
+  { key: 'bloomRadiusMid', label: 'Bloom radius × mid', min: 0, max: 2, step: 0.05, value: 0.8 },
+  { key: 'bloomThreshold', label: 'Bloom threshold', min: 0, max: 1, step: 0.01, value: 0.9 },
+  { key: 'bloomThresholdTreble', label: 'Threshold × treble', min: 0, max: 1, step: 0.01, value: 0.5 },
+];
+
+interface ThreeQualityTier extends QualityTier {
+  particleScale: number;  // share of the particleCount param
+  bloom: boolean;
+  detail: number;         // icosahedron subdivisions
+}
+
+export const THREE_QUALITY_TIERS: ThreeQualityTier[] = [
+  { label: 'Low', maxDpr: 0.75, particleScale: 0.2, bloom: false, detail: 16 },
+  { label: 'Medium', maxDpr: 1, particleScale: 0.5, bloom: true, detail: 32 },
+  { label: 'High', maxDpr: 1.5, particleScale: 1, bloom: true, detail: 64 },
+  { label: 'Full', maxDpr: Infinity, particleScale: 1, bloom: true, detail: 64 },
+];
+
+// While limiting, how quickly the bloom sinks back after a lift.
+const BLOOM_FALL_S = 0.3;
+
+export class ThreeScene implements Visualizer {
   private canvas: HTMLCanvasElement;
-  private analyser: AnalyserNode;
-  private track: Track;
-  private dataArray: Uint8Array;
+  private features: AudioFeatures;
+  private driver: FrameDriver;
+  private palette: PaletteBlend;
+  private lastTime = -1;
+  private params: SceneParamValues = defaultParams(THREE_SCENE_PARAMS);
+  private flowTime = 0;
+  private quality = THREE_QUALITY_TIERS[THREE_QUALITY_TIERS.length - 1];
+  private bloomStrength = new LumaLimiter(0.05);
+  private bloomThreshold = new LumaLimiter(0.02);
+  private flashGuard = new FlashGuard();
+  private bloomBass = 0;
+  private bloomTreble = 0;
 
   private renderer!: THREE.WebGLRenderer;
+  // Owned by the app when given; the scene then leaves it running on destroy.
+  private sharedRenderer: THREE.WebGLRenderer | null;
+  private renderScale = 1;
   private scene!: THREE.Scene;
   private camera!: THREE.PerspectiveCamera;
   private controls!: OrbitControls;
@@ -179,12 +224,14 @@ export class ThreeScene {
   private backgroundParticleUniforms!: { [uniform: string]: THREE.IUniform };
 
   private animationFrameId = 0;
+  private resumeOnRestore = false;
 
-  constructor(canvas: HTMLCanvasElement, analyser: AnalyserNode, track: Track) {
+  constructor(canvas: HTMLCanvasElement, analyser: SpectrumSource, track: Track, driver: FrameDriver = realtimeDriver, renderer?: THREE.WebGLRenderer) {
     this.canvas = canvas;
-    this.analyser = analyser;
-    this.track = track;
-    this.dataArray = new Uint8Array(this.analyser.frequencyBinCount);
+    this.driver = driver;
+    this.sharedRenderer = renderer ?? null;
+    this.features = getAudioFeatures(analyser);
+    this.palette = new PaletteBlend(track.palette);
   }
 
   public init() {
@@ -194,15 +241,35 @@ export class ThreeScene {
     this.setupBackgroundParticles();
     this.handleResize();
     window.addEventListener('resize', this.handleResize);
+    this.canvas.addEventListener('webglcontextlost', this.handleContextLost);
+    this.canvas.addEventListener('webglcontextrestored', this.handleContextRestored);
     this.animate();
   }
 
+  // The renderer resets its own GL state on restore, but everything uploaded to the old
+  // context is gone, so the mesh, particles and bloom targets are built again.
+  private handleContextLost = (e: Event) => {
+    e.preventDefault();
+    this.resumeOnRestore = this.animationFrameId !== 0;
+    this.pause();
+  };
+
+  private handleContextRestored = () => {
+    this.disposeResources();
+    this.scene.remove(this.mesh, this.backgroundParticles);
+    this.setupPostProcessing();
+    this.setupMesh();
+    this.setupBackgroundParticles();
+    this.handleResize();
+    if (this.resumeOnRestore) this.resume();
+  };
+
   private setupScene() {
     this.scene = new THREE.Scene();
     this.camera = new THREE.PerspectiveCamera(75, 1, 0.1, 1000);
     this.camera.position.z = 1.5;
 
-    this.renderer = new THREE.WebGLRenderer({
+    this.renderer = this.sharedRenderer ?? new THREE.WebGLRenderer({
       canvas: this.canvas,
       antialias: true,
       alpha: true,
@@ -237,18 +304,19 @@ export class ThreeScene {
     this.composer = new EffectComposer(this.renderer);
     this.composer.addPass(renderPass);
     this.composer.addPass(this.bloomPass);
+    this.bloomPass.enabled = this.quality.bloom;
   }
 
   private setupMesh() {
-    const geometry = new THREE.IcosahedronGeometry(0.75, 64);
+    const geometry = new THREE.IcosahedronGeometry(0.75, this.quality.detail);
     this.meshUniforms = {
       u_time: { value: 0.0 },
       u_bass: { value: 0.0 },
       u_mid: { value: 0.0 },
       u_treble: { value: 0.0 },
-      u_color_a: { value: new THREE.Color(this.track.palette[0] ?? '#7a1f2b') },
-      u_color_b: { value: new THREE.Color('#d90057') },
-      u_color_c: { value: new THREE.Color('#e09419') },
+      u_color_a: { value: new THREE.Color() },
+      u_color_b: { value: new THREE.Color() },
+      u_color_c: { value: new THREE.Color() },
     };
     const material = new THREE.ShaderMaterial({
       uniforms: this.meshUniforms,
@@ -261,20 +329,20 @@ export class ThreeScene {
   }
   
   private setupBackgroundParticles() {
-    const particleCount = 20000;
+    const particleCount = Math.round(this.params.particleCount * this.quality.particleScale);
     const positions = new Float32Array(particleCount * 3);
     const randoms = new Float32Array(particleCount);
     const radius = 10;
     for (let i = 0; i < particleCount; i++) {
       const i3 = i * 3;
-      const u = Math.random();
-      const v = Math.random();
+      const u = this.driver.random();
+      const v = this.driver.random();
       const theta = 2 * Math.PI * u;
       const phi = Math.acos(2 * v - 1);
       positions[i3] = radius * Math.sin(phi) * Math.cos(theta);
       positions[i3 + 1] = radius * Math.sin(phi) * Math.sin(theta);
       positions[i3 + 2] = radius * Math.cos(phi);
-      randoms[i] = Math.random();
+      randoms[i] = this.driver.random();
     }
     const geometry = new THREE.BufferGeometry();
     geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
@@ -282,6 +350,7 @@ export class ThreeScene {
     this.backgroundParticleUniforms = {
         u_time: { value: 0.0 },
         u_treble: { value: 0.0 },
+        u_color: { value: new THREE.Color() },
     };
     const material = new THREE.ShaderMaterial({
       uniforms: this.backgroundParticleUniforms,
@@ -293,21 +362,78 @@ export class ThreeScene {
     });
     this.backgroundParticles = new THREE.Points(geometry, material);
     this.scene.add(this.backgroundParticles);
+    this.applyPalette();
+  }
+
+  // Body moves from the first two palette colors toward the brightest on treble; the sparkles use the brightest.
+  private applyPalette() {
+    const p = this.palette;
+    const brightest = p.byBrightness(p.length - 1);
+    (this.meshUniforms.u_color_a.value as THREE.Color).setRGB(...p.rgb(0), THREE.SRGBColorSpace);
+    (this.meshUniforms.u_color_b.value as THREE.Color).setRGB(...p.rgb(1), THREE.SRGBColorSpace);
+    (this.meshUniforms.u_color_c.value as THREE.Color).setRGB(...brightest, THREE.SRGBColorSpace);
+    (this.backgroundParticleUniforms.u_color.value as THREE.Color).setRGB(...brightest, THREE.SRGBColorSpace);
+  }
+
+  public setPalette(palette: string[]) {
+    this.palette.setTarget(palette);
+  }
+
+  public setParams(values: SceneParamValues) {
+    const prevCount = this.params.particleCount;
+    this.params = resolveParams(THREE_SCENE_PARAMS, values);
+    if (this.params.particleCount !== prevCount) this.rebuildParticles();
+  }
+
+  public setQuality(tier: number) {
+    const prev = this.quality;
+    this.quality = THREE_QUALITY_TIERS[Math.max(0, Math.min(THREE_QUALITY_TIERS.length - 1, tier))];
+    if (!this.renderer) return;
+    if (this.quality.particleScale !== prev.particleScale) this.rebuildParticles();
+    if (this.quality.detail !== prev.detail) {
+      this.mesh.geometry.dispose();
+      this.mesh.geometry = new THREE.IcosahedronGeometry(0.75, this.quality.detail);
+    }
+    this.bloomPass.enabled = this.quality.bloom;
+    this.handleResize();
+  }
+
+  public setRenderScale(scale: number) {
+    this.renderScale = scale;
+    if (this.renderer) this.handleResize();
+  }
+
+  // The particle buffers are sized up front, so a new count means rebuilding them.
+  private rebuildParticles() {
+    if (!this.backgroundParticles) return;
+    this.scene.remove(this.backgroundParticles);
+    this.backgroundParticles.geometry.dispose();
+    (this.backgroundParticles.material as THREE.Material).dispose();
+    this.setupBackgroundParticles();
   }
 
   private animate = () => {
-    this.animationFrameId = requestAnimationFrame(this.animate);
-    this.analyser.getByteFrequencyData(this.dataArray);
-    this.update();
+    this.animationFrameId = this.driver.request(this.animate);
+    this.update(this.features.sample(this.driver.now()));
     this.controls.update();
     this.composer.render();
   };
 
-  private update() {
-    const time = performance.now() * 0.0005;
-    const bass = avg(this.dataArray, 0, 8) / 255;
-    const mid = avg(this.dataArray, 40, 100) / 255;
-    const treble = avg(this.dataArray, 150, 400) / 255;
+  private update(frame: AudioFeatureFrame) {
+    const dt = this.lastTime >= 0 ? (frame.time - this.lastTime) / 1000 : 0;
+    this.lastTime = frame.time;
+    this.palette.setOverride(frame.cues?.palette ?? null, frame.cues?.paletteFade);
+    this.palette.step(dt);
+    this.applyPalette();
+    this.applyCameraCue(frame.cues?.camera ?? NEUTRAL_CAMERA);
+
+    // Reduced motion slows the noise flow and damps how far the mesh and particles move.
+    const motion = motionScale();
+    this.flowTime += dt * 0.5 * motion;
+    const time = this.flowTime;
+    const { mid } = frame;
+    const bass = frame.bass * motion;
+    const treble = frame.treble * motion;
 
     this.meshUniforms.u_time.value = time;
     this.meshUniforms.u_bass.value = bass;
@@ -320,9 +446,30 @@ export class ThreeScene {
     }
     
     if (this.bloomPass) {
-        this.bloomPass.strength = 0.5 + bass * 2.0;
-        this.bloomPass.radius = 0.2 + mid * 0.8;
-        this.bloomPass.threshold = 0.9 - treble * 0.5;
+        const p = this.params;
+        this.bloomBass = this.bloomEnvelope(this.bloomBass, bass, dt, frame.time);
+        this.bloomTreble = this.bloomEnvelope(this.bloomTreble, treble, dt, frame.time);
+        this.bloomPass.strength = this.bloomStrength.step(p.bloomStrength + this.bloomBass * p.bloomStrengthBass, dt);
+        this.bloomPass.radius = p.bloomRadius + mid * p.bloomRadiusMid;
+        this.bloomPass.threshold = this.bloomThreshold.step(p.bloomThreshold - this.bloomTreble * p.bloomThresholdTreble, dt);
+    }
+  }
+
+  // While limiting, a band lifts the bloom at most once per flash interval and sinks back
+  // gradually in between, so the bloom swings slower than 3 Hz.
+  private bloomEnvelope(held: number, level: number, dt: number, nowMs: number): number {
+    if (!limitsFlashes()) return level;
+    if (level > held) return this.flashGuard.allow(nowMs) ? level : held;
+    return held + (level - held) * (1 - Math.exp(-dt / BLOOM_FALL_S));
+  }
+
+  // Cued camera moves sit on top of the viewer's orbiting: the scene turns under the camera
+  // and the lens zooms, so the controls keep their own position.
+  private applyCameraCue(move: CameraMove) {
+    this.scene.rotation.set(THREE.MathUtils.degToRad(move.tilt), THREE.MathUtils.degToRad(move.orbit), 0);
+    if (this.camera.zoom !== move.zoom) {
+      this.camera.zoom = move.zoom;
+      this.camera.updateProjectionMatrix();
     }
   }
 
@@ -331,24 +478,43 @@ export class ThreeScene {
     this.renderer.setSize(width, height, false);
     this.camera.aspect = width / height;
     this.camera.updateProjectionMatrix();
+    // The composer copies the renderer's ratio only when built, so tier changes must reach it too.
+    this.composer?.setPixelRatio(dpr);
     this.composer?.setSize(width, height);
   }
 
   private handleResize = () => {
     const { clientWidth, clientHeight } = this.canvas.parentElement || this.canvas;
-    this.setSize(clientWidth, clientHeight, window.devicePixelRatio);
+    this.setSize(clientWidth, clientHeight, renderDpr(this.quality) * this.renderScale);
   };
 
+  public pause() {
+    if (this.animationFrameId) this.driver.cancel(this.animationFrameId);
+    this.animationFrameId = 0;
+  }
+
+  public resume() {
+    if (!this.animationFrameId) this.animate();
+  }
+
   public destroy() {
-    if (this.animationFrameId) cancelAnimationFrame(this.animationFrameId);
+    this.pause();
     window.removeEventListener('resize', this.handleResize);
+    this.canvas.removeEventListener('webglcontextlost', this.handleContextLost);
+    this.canvas.removeEventListener('webglcontextrestored', this.handleContextRestored);
     this.controls?.dispose();
+    this.disposeResources();
+    if (!this.sharedRenderer) this.renderer?.dispose();
+  }
+
+  private disposeResources() {
     this.mesh?.geometry.dispose();
     (this.mesh?.material as THREE.Material)?.dispose();
     if (this.backgroundParticles) {
       this.backgroundParticles.geometry.dispose();
       (this.backgroundParticles.material as THREE.Material).dispose();
     }
-    this.renderer?.dispose();
+    this.bloomPass?.dispose();
+    this.composer?.dispose();
   }
 }
\ No newline at end of file
@@ -0,0 +1,305 @@
+// Offline pre-analysis: each track is decoded once, rendered through an OfflineAudioContext
+// and reduced to a feature timeline that scenes can look ahead in. Results are cached in IndexedDB.
+import { fft } from './OfflineSpectrum';
+
+export interface TrackTimeline {
+  version: number;
+  trackId: string;
+  source: string | null;  // URL analysed; null for local files, whose ids already name the file
+  duration: number;     // s
+  hop: number;          // s between envelope frames
+  energy: number[];     // 0..1 RMS envelope of the full mix, one value per hop
+  onsets: number[];     // s
+  beats: number[];      // s, evenly spaced grid at `tempo`
+  tempo: number;        // BPM
+  loudness: number;     // dBFS, RMS over the whole track
+  centroid: number;     // Hz, mean spectral centroid, weighted by frame level
+  brightness: number;   // 0..1 share of spectral magnitude above BRIGHTNESS_CUTOFF_HZ
+  waveform: { min: number[]; max: number[] };  // -1..1 per overview column
+}
+
+const TIMELINE_VERSION = 3;
+const ANALYSIS_RATE = 22050;
+const HOP_SAMPLES = 512;
+const BASS_CUTOFF_HZ = 150;
+const MIN_BPM = 70;
+const MAX_BPM = 180;
+const ONSET_MIN_GAP_S = 0.1;
+const WAVEFORM_COLUMNS = 800;
+const SPECTRUM_FFT_SIZE = 2048;
+const SPECTRUM_FRAMES = 256;
+const BRIGHTNESS_CUTOFF_HZ = 2000;
+
+const DB_NAME = 'sound-of-me';
+const DB_STORE = 'timelines';
+
+/* ---------------------------- IndexedDB cache ---------------------------- */
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, 1);
+      req.onupgradeneeded = () => req.result.createObjectStore(DB_STORE);
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const idbRequest = <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+  openDb().then(db => new Promise<T>((resolve, reject) => {
+    const req = run(db.transaction(DB_STORE, mode).objectStore(DB_STORE));
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  }));
+
+// Object URLs change every session, so they can't tell whether the audio did.
+const cacheSource = (url: string) => (url.startsWith('blob:') ? null : url);
+
+// A manifest may point an id at different audio later; the cached timeline then no longer fits.
+const readCached = async (trackId: string, url: string): Promise<TrackTimeline | null> => {
+  if (typeof indexedDB === 'undefined') return null;
+  try {
+    const hit = await idbRequest<TrackTimeline | undefined>('readonly', s => s.get(trackId));
+    return hit && hit.version === TIMELINE_VERSION && hit.source === cacheSource(url) ? hit : null;
+  } catch {
+    return null;
+  }
+};
+
+const writeCached = async (timeline: TrackTimeline) => {
+  if (typeof indexedDB === 'undefined') return;
+  try {
+    await idbRequest('readwrite', s => s.put(timeline, timeline.trackId));
+  } catch (e) {
+    console.warn('Could not cache track timeline:', e);
+  }
+};
+
+/* ---------------------------- Analysis ---------------------------- */
+
+const waveformOverview = (samples: Float32Array): { min: number[]; max: number[] } => {
+  const min: number[] = [], max: number[] = [];
+  const per = Math.max(1, Math.floor(samples.length / WAVEFORM_COLUMNS));
+  for (let c = 0; c < WAVEFORM_COLUMNS && c * per < samples.length; c++) {
+    let lo = 0, hi = 0;
+    for (let i = c * per; i < (c + 1) * per && i < samples.length; i++) {
+      if (samples[i] < lo) lo = samples[i];
+      if (samples[i] > hi) hi = samples[i];
+    }
+    min.push(lo);
+    max.push(hi);
+  }
+  return { min, max };
+};
+
+// Averages over evenly spaced frames rather than the whole file; plenty for a per-track summary.
+const spectralSummary = (samples: Float32Array, sampleRate: number): { centroid: number; brightness: number } => {
+  const n = SPECTRUM_FFT_SIZE;
+  const re = new Float32Array(n);
+  const im = new Float32Array(n);
+  const frames = Math.min(SPECTRUM_FRAMES, Math.floor(samples.length / n));
+  const stride = frames > 0 ? Math.floor((samples.length - n) / frames) : 0;
+  const cutoffBin = Math.round((BRIGHTNESS_CUTOFF_HZ / sampleRate) * n);
+  let centroidSum = 0, weightSum = 0, high = 0, total = 0;
+  for (let f = 0; f < frames; f++) {
+    const o = f * stride;
+    for (let i = 0; i < n; i++) {
+      re[i] = samples[o + i] * (0.5 - 0.5 * Math.cos((2 * Math.PI * i) / n));
+      im[i] = 0;
+    }
+    fft(re, im);
+    let mag = 0, weighted = 0;
+    for (let k = 1; k < n / 2; k++) {
+      const m = Math.hypot(re[k], im[k]);
+      mag += m;
+      weighted += m * k;
+      if (k >= cutoffBin) high += m;
+    }
+    total += mag;
+    // Near-silent frames would pull the centroid toward noise.
+    if (mag < 1e-3) continue;
+    centroidSum += weighted;
+    weightSum += mag;
+  }
+  return {
+    centroid: weightSum ? (centroidSum / weightSum) * (sampleRate / n) : 0,
+    brightness: total ? high / total : 0,
+  };
+};
+
+const rmsEnvelope = (samples: Float32Array): Float32Array => {
+  const frames = Math.floor(samples.length / HOP_SAMPLES);
+  const env = new Float32Array(frames);
+  for (let f = 0; f < frames; f++) {
+    let sq = 0;
+    const o = f * HOP_SAMPLES;
+    for (let i = 0; i < HOP_SAMPLES; i++) sq += samples[o + i] * samples[o + i];
+    env[f] = Math.sqrt(sq / HOP_SAMPLES);
+  }
+  return env;
+};
+
+// Half-wave rectified log-energy difference; bass weighted since kicks carry the beat.
+const noveltyCurve = (full: Float32Array, bass: Float32Array): Float32Array => {
+  const n = new Float32Array(full.length);
+  for (let i = 1; i < full.length; i++) {
+    const db = Math.log1p(100 * bass[i]) - Math.log1p(100 * bass[i - 1]);
+    const df = Math.log1p(100 * full[i]) - Math.log1p(100 * full[i - 1]);
+    n[i] = Math.max(0, db) + 0.5 * Math.max(0, df);
+  }
+  return n;
+};
+
+const pickOnsets = (novelty: Float32Array, hop: number): number[] => {
+  const onsets: number[] = [];
+  const w = 8;
+  const minGap = Math.round(ONSET_MIN_GAP_S / hop);
+  let last = -Infinity;
+  for (let i = 1; i < novelty.length - 1; i++) {
+    const v = novelty[i];
+    if (v < novelty[i - 1] || v < novelty[i + 1]) continue;
+    let sum = 0, cnt = 0;
+    for (let j = Math.max(0, i - w); j <= Math.min(novelty.length - 1, i + w); j++) { sum += novelty[j]; cnt++; }
+    if (v > (sum / cnt) * 1.5 + 0.02 && i - last >= minGap) {
+      onsets.push(i * hop);
+      last = i;
+    }
+  }
+  return onsets;
+};
+
+// Autocorrelation over the plausible tempo range, mildly biased toward 120 BPM.
+// Returns the beat period in hops, refined to a fraction so the grid doesn't drift.
+const estimatePeriod = (novelty: Float32Array, hop: number): number => {
+  const minLag = Math.floor(60 / MAX_BPM / hop);
+  const maxLag = Math.ceil(60 / MIN_BPM / hop);
+  const acf = new Float32Array(maxLag + 2);
+  for (let lag = minLag - 1; lag <= maxLag + 1; lag++) {
+    let acc = 0;
+    for (let i = lag; i < novelty.length; i++) acc += novelty[i] * novelty[i - lag];
+    acf[lag] = acc;
+  }
+  let bestLag = Math.round(0.5 / hop), best = -Infinity;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    const bpm = 60 / (lag * hop);
+    const weight = Math.exp(-0.5 * (Math.log2(bpm / 120) / 0.9) ** 2);
+    if (acf[lag] * weight > best) { best = acf[lag] * weight; bestLag = lag; }
+  }
+  const a = acf[bestLag - 1], b = acf[bestLag], c = acf[bestLag + 1];
+  const denom = a - 2 * b + c;
+  return denom < 0 ? bestLag + 0.5 * (a - c) / denom : bestLag;
+};
+
+const beatGrid = (novelty: Float32Array, period: number, hop: number): number[] => {
+  let bestPhase = 0, best = -Infinity;
+  for (let phase = 0; phase < period; phase++) {
+    let acc = 0;
+    for (let i = phase; i < novelty.length; i += period) acc += novelty[Math.round(i)] ?? 0;
+    if (acc > best) { best = acc; bestPhase = phase; }
+  }
+  const beats: number[] = [];
+  for (let i = bestPhase; i < novelty.length; i += period) beats.push(i * hop);
+  return beats;
+};
+
+// Decoding through an OfflineAudioContext resamples to its rate; channels are kept as-is.
+export const decodeAudio = async (url: string, sampleRate = ANALYSIS_RATE): Promise<AudioBuffer> => {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`Could not fetch audio (${res.status})`);
+  const data = await res.arrayBuffer();
+  return new OfflineAudioContext(1, 1, sampleRate).decodeAudioData(data);
+};
+
+// Renders a mono mixdown on channel 0 and a low-passed copy on channel 1.
+const renderBands = async (buffer: AudioBuffer): Promise<AudioBuffer> => {
+  const ctx = new OfflineAudioContext(2, buffer.length, ANALYSIS_RATE);
+  const src = ctx.createBufferSource();
+  src.buffer = buffer;
+  const lowpass = ctx.createBiquadFilter();
+  lowpass.type = 'lowpass';
+  lowpass.frequency.value = BASS_CUTOFF_HZ;
+  const merger = ctx.createChannelMerger(2);
+  src.connect(merger, 0, 0);
+  src.connect(lowpass).connect(merger, 0, 1);
+  merger.connect(ctx.destination);
+  src.start();
+  return ctx.startRendering();
+};
+
+export const analyzeTrack = async (trackId: string, url: string): Promise<TrackTimeline> => {
+  const rendered = await renderBands(await decodeAudio(url));
+  const full = rendered.getChannelData(0);
+  const hop = HOP_SAMPLES / ANALYSIS_RATE;
+
+  const energy = rmsEnvelope(full);
+  const bass = rmsEnvelope(rendered.getChannelData(1));
+  const novelty = noveltyCurve(energy, bass);
+  const period = estimatePeriod(novelty, hop);
+
+  let sq = 0, peakEnergy = 0;
+  for (let i = 0; i < full.length; i++) sq += full[i] * full[i];
+  for (let i = 0; i < energy.length; i++) peakEnergy = Math.max(peakEnergy, energy[i]);
+  const rms = Math.sqrt(sq / Math.max(1, full.length));
+
+  return {
+    version: TIMELINE_VERSION,
+    trackId,
+    source: cacheSource(url),
+    duration: rendered.duration,
+    hop,
+    energy: Array.from(energy, v => (peakEnergy ? v / peakEnergy : 0)),
+    onsets: pickOnsets(novelty, hop),
+    beats: beatGrid(novelty, period, hop),
+    tempo: 60 / (period * hop),
+    loudness: 20 * Math.log10(Math.max(rms, 1e-6)),
+    ...spectralSummary(full, ANALYSIS_RATE),
+    waveform: waveformOverview(full),
+  };
+};
+
+const inflight = new Map<string, Promise<TrackTimeline>>();
+
+export const loadTrackTimeline = (trackId: string, url: string): Promise<TrackTimeline> => {
+  const key = `${trackId} ${url}`;
+  const pending = inflight.get(key);
+  if (pending) return pending;
+  const job = (async () => {
+    const cached = await readCached(trackId, url);
+    if (cached) return cached;
+    const timeline = await analyzeTrack(trackId, url);
+    await writeCached(timeline);
+    return timeline;
+  })().finally(() => inflight.delete(key));
+  inflight.set(key, job);
+  return job;
+};
+
+/* ---------------------------- Lookup ---------------------------- */
+
+// Index of the last entry <= t in an ascending list, or -1.
+export const indexAtOrBefore = (list: number[], t: number): number => {
+  let lo = 0, hi = list.length - 1, ans = -1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (list[mid] <= t) { ans = mid; lo = mid + 1; } else { hi = mid - 1; }
+  }
+  return ans;
+};
+
+export const energyAt = (timeline: TrackTimeline, t: number): number => {
+  const i = Math.floor(t / timeline.hop);
+  return timeline.energy[Math.max(0, Math.min(timeline.energy.length - 1, i))] ?? 0;
+};
+
+export const peakEnergyBetween = (timeline: TrackTimeline, from: number, to: number): number => {
+  const s = Math.max(0, Math.floor(from / timeline.hop));
+  const e = Math.min(timeline.energy.length - 1, Math.ceil(to / timeline.hop));
+  let peak = 0;
+  for (let i = s; i <= e; i++) peak = Math.max(peak, timeline.energy[i]);
+  return peak;
+};
@@ -0,0 +1,134 @@
+import type { Track, SceneId } from '../types';
+import { SCENES } from './SceneRegistry';
+
+// Loads the track catalog from a tracks.json manifest so songs can be added without a rebuild.
+//
+// {
+//   "version": 1,
+//   "baseUrl": "https://cdn.example.com/audio/",   // optional, relative to the manifest
+//   "tracks": [{ "id", "title", "file", "palette", "mood",
+//                "artist"?, "artwork"?, "scene"?, "baseUrl"?, "lyrics"?, "cues"? }]
+// }
+
+export const MANIFEST_VERSION = 1;
+
+// Set TRACKS_MANIFEST in .env.local, or add ?manifest=<url>, to point at another file or a local dev server.
+export const DEFAULT_MANIFEST_URL = process.env.TRACKS_MANIFEST || 'tracks.json';
+
+const manifestUrlFromLocation = () =>
+  new URLSearchParams(window.location.search).get('manifest') || DEFAULT_MANIFEST_URL;
+
+export class ManifestError extends Error {
+  public readonly issues: string[];
+
+  constructor(source: string, issues: string[]) {
+    super(`Track manifest ${source}:\n  - ${issues.join('\n  - ')}`);
+    this.name = 'ManifestError';
+    this.issues = issues;
+  }
+}
+
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+const describe = (v: unknown): string =>
+  v === null ? 'null' : Array.isArray(v) ? 'an array' : typeof v === 'string' ? `"${v}"` : typeof v;
+
+const isObject = (v: unknown): v is Record<string, unknown> =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const resolveUrl = (value: string, base: string) => new URL(value, base).href;
+
+export const parseManifest = (raw: unknown, manifestUrl: string): Track[] => {
+  const issues: string[] = [];
+  const str = (obj: Record<string, unknown>, key: string, path: string, required: boolean): string | undefined => {
+    const v = obj[key];
+    if (v === undefined && !required) return undefined;
+    if (typeof v !== 'string' || !v.trim()) {
+      issues.push(`${path}.${key}: expected a non-empty string, got ${describe(v)}`);
+      return undefined;
+    }
+    return v;
+  };
+
+  if (!isObject(raw)) throw new ManifestError(manifestUrl, [`expected a JSON object, got ${describe(raw)}`]);
+  if (raw.version !== MANIFEST_VERSION) {
+    issues.push(`version: expected ${MANIFEST_VERSION}, got ${describe(raw.version)}`);
+  }
+  const rootBase = str(raw, 'baseUrl', 'manifest', false);
+  if (!Array.isArray(raw.tracks) || !raw.tracks.length) {
+    throw new ManifestError(manifestUrl, [...issues, `tracks: expected a non-empty array, got ${describe(raw.tracks)}`]);
+  }
+
+  const seen = new Set<string>();
+  const tracks: Track[] = [];
+  raw.tracks.forEach((entry, i) => {
+    const path = `tracks[${i}]`;
+    if (!isObject(entry)) {
+      issues.push(`${path}: expected an object, got ${describe(entry)}`);
+      return;
+    }
+    const before = issues.length;
+    const id = str(entry, 'id', path, true);
+    const title = str(entry, 'title', path, true);
+    const file = str(entry, 'file', path, true);
+    const mood = str(entry, 'mood', path, true);
+    const artist = str(entry, 'artist', path, false);
+    const artwork = str(entry, 'artwork', path, false);
+    const baseUrl = str(entry, 'baseUrl', path, false) ?? rootBase;
+    const scene = str(entry, 'scene', path, false);
+    const lyrics = str(entry, 'lyrics', path, false);
+    const cues = str(entry, 'cues', path, false);
+
+    if (id && seen.has(id)) issues.push(`${path}.id: "${id}" is used by an earlier track`);
+    if (id) seen.add(id);
+    if (scene && !Object.hasOwn(SCENES, scene)) {
+      issues.push(`${path}.scene: unknown scene "${scene}", expected one of ${Object.keys(SCENES).join(', ')}`);
+    }
+    const palette = entry.palette;
+    if (!Array.isArray(palette) || !palette.length) {
+      issues.push(`${path}.palette: expected a non-empty array of hex colors, got ${describe(palette)}`);
+    } else {
+      palette.forEach((c, j) => {
+        if (typeof c !== 'string' || !HEX_COLOR.test(c)) {
+          issues.push(`${path}.palette[${j}]: expected a hex color like "#a1b2c3", got ${describe(c)}`);
+        }
+      });
+    }
+    if (issues.length > before) return;
+
+    tracks.push({
+      id: id!,
+      title: title!,
+      file: file!,
+      mood: mood!,
+      palette: palette as string[],
+      scene: scene as SceneId | undefined,
+      artist,
+      artwork: artwork && resolveUrl(artwork, manifestUrl),
+      baseUrl: baseUrl && resolveUrl(baseUrl, manifestUrl),
+      lyrics: lyrics && resolveUrl(lyrics, manifestUrl),
+      cues: cues && resolveUrl(cues, manifestUrl),
+    });
+  });
+
+  if (issues.length) throw new ManifestError(manifestUrl, issues);
+  return tracks;
+};
+
+export const loadTrackManifest = async (url = manifestUrlFromLocation()): Promise<Track[]> => {
+  const manifestUrl = resolveUrl(url, window.location.href);
+  let res: Response;
+  try {
+    res = await fetch(manifestUrl, { cache: 'no-cache' });
+  } catch (e) {
+    throw new ManifestError(manifestUrl, [`could not be fetched (${(e as Error).message})`]);
+  }
+  if (!res.ok) throw new ManifestError(manifestUrl, [`could not be fetched (HTTP ${res.status})`]);
+  let raw: unknown;
+  try {
+    raw = await res.json();
+  } catch (e) {
+    throw new ManifestError(manifestUrl, [`is not valid JSON (${(e as Error).message})`]);
+  }
+  return parseManifest(raw, manifestUrl);
+};
@@ -0,0 +1,153 @@
+import React, { useState, useEffect, useRef } from 'react';
+import type { SceneEntry } from './SceneRegistry';
+import type { SceneParamValues } from './SceneParams';
+import { defaultParams } from './SceneParams';
+import { loadPresets, savePresets, upsertPreset, parsePresets, presetsToBlob } from './ScenePresets';
+import type { ScenePreset } from './ScenePresets';
+import { downloadBlob } from './SceneRecorder';
+
+interface TuningPanelProps {
+  scene: SceneEntry;
+  trackId: string;
+  values: SceneParamValues;
+  onChange: (values: SceneParamValues) => void;
+}
+
+const pillClass = "text-xs text-zinc-300 border border-zinc-800 rounded-full px-3 py-1.5 bg-[rgba(10,10,10,0.7)] backdrop-blur-md cursor-pointer hover:border-zinc-600 hover:text-white transition-colors";
+const smallButton = "px-2 py-1 rounded border border-zinc-800 hover:border-zinc-600 hover:text-white transition-colors disabled:opacity-40 disabled:cursor-default";
+
+// Values are shown with as many decimals as the slider step has.
+const formatValue = (v: number, step: number) => v.toFixed(Math.max(0, -Math.floor(Math.log10(step))));
+
+const TuningPanel: React.FC<TuningPanelProps> = ({ scene, trackId, values, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const [presets, setPresets] = useState<ScenePreset[]>(() => loadPresets(trackId));
+  const [selected, setSelected] = useState('');
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setPresets(loadPresets(trackId));
+    setSelected('');
+    setError(null);
+  }, [trackId]);
+
+  const scenePresets = presets.filter(p => p.scene === scene.id);
+
+  const updatePresets = (next: ScenePreset[]) => {
+    setPresets(next);
+    savePresets(trackId, next);
+  };
+
+  const handleSave = () => {
+    const trimmed = name.trim() || selected;
+    if (!trimmed) return;
+    updatePresets(upsertPreset(presets, { name: trimmed, scene: scene.id, params: values }));
+    setSelected(trimmed);
+    setName('');
+  };
+
+  const handleLoad = (presetName: string) => {
+    setSelected(presetName);
+    const preset = scenePresets.find(p => p.name === presetName);
+    if (preset) onChange(preset.params);
+  };
+
+  const handleDelete = () => {
+    updatePresets(presets.filter(p => !(p.name === selected && p.scene === scene.id)));
+    setSelected('');
+  };
+
+  const handleImport = async (file: File) => {
+    setError(null);
+    try {
+      const imported = parsePresets(JSON.parse(await file.text()));
+      if (!imported.length) throw new Error('The file has no usable presets.');
+      updatePresets(imported.reduce(upsertPreset, presets));
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  };
+
+  if (!scene.params.length) return null;
+
+  return (
+    <div className="relative">
+      <button onClick={() => setOpen(o => !o)} className={pillClass} title="Tune this scene's parameters">
+        Tune {open ? '▴' : '▾'}
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-2 w-72 max-h-[70vh] overflow-y-auto flex flex-col gap-3 p-3 rounded-xl border border-zinc-800 bg-[rgba(15,15,15,0.9)] backdrop-blur-md text-xs text-zinc-300">
+          <div className="flex items-center justify-between text-zinc-500">
+            <span>{scene.label}</span>
+            <button onClick={() => onChange(defaultParams(scene.params))} className={smallButton}>Reset</button>
+          </div>
+          {scene.params.map(p => (
+            <label key={p.key} className="flex flex-col gap-1">
+              <span className="flex justify-between">
+                {p.label}
+                <span className="tabular-nums text-zinc-500">{formatValue(values[p.key], p.step)}</span>
+              </span>
+              <input
+                type="range" min={p.min} max={p.max} step={p.step}
+                value={values[p.key]}
+                onChange={(e) => onChange({ ...values, [p.key]: Number(e.target.value) })}
+                className="w-full accent-zinc-300"
+              />
+            </label>
+          ))}
+
+          <div className="border-t border-zinc-800 pt-3 flex flex-col gap-2">
+            <div className="flex gap-2">
+              <select
+                value={selected}
+                onChange={(e) => handleLoad(e.target.value)}
+                className="flex-1 bg-[#121212] border border-zinc-800 rounded px-2 py-1"
+              >
+                <option value="">Presets…</option>
+                {scenePresets.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+              </select>
+              <button onClick={handleDelete} disabled={!selected} className={smallButton}>Delete</button>
+            </div>
+            <div className="flex gap-2">
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); }}
+                placeholder={selected || 'Preset name'}
+                className="flex-1 min-w-0 bg-[#121212] border border-zinc-800 rounded px-2 py-1"
+              />
+              <button onClick={handleSave} disabled={!name.trim() && !selected} className={smallButton}>Save</button>
+            </div>
+            <div className="flex gap-2">
+              <button onClick={() => fileInputRef.current?.click()} className={smallButton}>Import…</button>
+              <button
+                onClick={() => downloadBlob(presetsToBlob(trackId, presets), `${trackId}-presets.json`)}
+                disabled={!presets.length}
+                className={smallButton}
+              >
+                Export
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) handleImport(file);
+                  e.target.value = '';
+                }}
+              />
+            </div>
+            <div className="text-zinc-500">Presets are saved for this track in this browser.</div>
+            {error && <div className="text-[#ff6b6b]">{error}</div>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TuningPanel;
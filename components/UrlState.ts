@@ -0,0 +1,47 @@
+// Mirrors the view, track and playback position in the query string, e.g.
+// ?track=journey&view=scene&t=62, so a moment in a scene can be linked to and reloads
+// land back where they were. Other parameters (like ?manifest=) are left alone.
+
+export type RoutedView = 'data' | 'scene';
+
+export interface UrlState {
+  view: RoutedView | null;  // null before the audio has been started
+  trackId: string | null;
+  time: number | null;      // s
+}
+
+const ROUTED_VIEWS: RoutedView[] = ['data', 'scene'];
+
+export const readUrlState = (search = window.location.search): UrlState => {
+  const params = new URLSearchParams(search);
+  const view = params.get('view');
+  const t = Number(params.get('t'));
+  return {
+    view: ROUTED_VIEWS.includes(view as RoutedView) ? (view as RoutedView) : null,
+    trackId: params.get('track') || null,
+    time: params.has('t') && isFinite(t) && t >= 0 ? t : null,
+  };
+};
+
+const writeUrl = (url: URL, mode: 'push' | 'replace') => {
+  if (url.href === window.location.href) return;
+  if (mode === 'push') window.history.pushState(null, '', url);
+  else window.history.replaceState(null, '', url);
+};
+
+export const writeUrlState = (state: UrlState, mode: 'push' | 'replace') => {
+  const url = new URL(window.location.href);
+  const set = (key: string, value: string | null) => (value === null ? url.searchParams.delete(key) : url.searchParams.set(key, value));
+  set('track', state.trackId);
+  set('view', state.view);
+  set('t', state.time === null ? null : String(Math.floor(state.time)));
+  writeUrl(url, mode);
+};
+
+// Keeps `t` current during playback without adding history entries. No-op outside a routed view.
+export const replaceUrlTime = (time: number) => {
+  const url = new URL(window.location.href);
+  if (!url.searchParams.has('view')) return;
+  url.searchParams.set('t', String(Math.floor(time)));
+  writeUrl(url, 'replace');
+};
@@ -0,0 +1,24 @@
+import React, { useState } from 'react';
+import type { WebGLStatus } from './WebGLSupport';
+
+const MESSAGES: Record<Exclude<WebGLStatus, 'ok'>, string> = {
+  unsupported: "This browser can't run WebGL, so every track uses the 2D scene.",
+  lost: 'The graphics context was lost and did not come back, so every track now uses the 2D scene. Reload to try 3D again.',
+};
+
+const WebGLNotice: React.FC<{ status: Exclude<WebGLStatus, 'ok'> }> = ({ status }) => {
+  const [dismissed, setDismissed] = useState(false);
+  if (dismissed) return null;
+  return (
+    <button
+      onClick={() => setDismissed(true)}
+      title="Dismiss"
+      role="status"
+      className="fixed left-1/2 -translate-x-1/2 top-16 z-30 max-w-md text-left text-xs text-[#ffd9a8] bg-[rgba(15,15,15,0.85)] backdrop-blur-md px-3 py-2.5 rounded-xl border border-[#5a4424] cursor-pointer"
+    >
+      {MESSAGES[status]}
+    </button>
+  );
+};
+
+export default WebGLNotice;
@@ -0,0 +1,40 @@
+import { useSyncExternalStore } from 'react';
+
+// Whether the WebGL scenes can run. Checked once at startup; it turns off for the session when
+// the shared renderer can't be created or its context is lost for good, and every track then
+// falls back to the 2D scene.
+
+export type WebGLStatus = 'ok' | 'unsupported' | 'lost';
+
+// three.js needs WebGL 2.
+const detect = (): WebGLStatus => {
+  try {
+    const gl = document.createElement('canvas').getContext('webgl2');
+    if (!gl) return 'unsupported';
+    // Hand the probe context back now rather than waiting for garbage collection.
+    gl.getExtension('WEBGL_lose_context')?.loseContext();
+    return 'ok';
+  } catch {
+    return 'unsupported';
+  }
+};
+
+let status: WebGLStatus = typeof document !== 'undefined' ? detect() : 'unsupported';
+const listeners = new Set<() => void>();
+
+export const getWebGLStatus = (): WebGLStatus => status;
+
+export const isWebGLUsable = () => status === 'ok';
+
+export const disableWebGL = (reason: Exclude<WebGLStatus, 'ok'>) => {
+  if (status !== 'ok') return;
+  status = reason;
+  listeners.forEach(fn => fn());
+};
+
+export const subscribeWebGLStatus = (fn: () => void) => {
+  listeners.add(fn);
+  return () => { listeners.delete(fn); };
+};
+
+export const useWebGLStatus = () => useSyncExternalStore(subscribeWebGLStatus, getWebGLStatus);
@@ -4,6 +4,14 @@ import type { Track } from './types';
 // Using a CDN to serve files from GitHub with the correct Content-Type header.
 export const RAW_BASE = 'https://cdn.jsdelivr.net/gh/peace50world-code/digitalwebsite@main/';
 
+export const trackUrl = (track: Track) => {
+  if (track.url) return track.url;
+  if (/^(https?:|blob:|data:)/.test(track.file)) return track.file;
+  return (track.baseUrl ?? RAW_BASE) + encodeURIComponent(track.file);
+};
+
+export const trackLabel = (track: Track) => (track.artist ? `${track.artist} — ${track.title}` : track.title);
+
 export const TRACKS: Track[] = [
   {
     id: 'journey',
@@ -11,6 +19,7 @@ export const TRACKS: Track[] = [
     file: "WOODZ (우즈) 'Journey' Official Audio - JXS_BP Official.mp3",
     palette: ['#9be15d','#f9f871','#6cd4ff','#3ba3ff'],
     mood: 'hopeful • breeze',
+    scene: 'journey',
   },
   {
     id: 'too-sweet',
@@ -18,6 +27,7 @@ export const TRACKS: Track[] = [
     file: 'too_sweet.mp3',
     palette: ['#7a1f2b','#b24a34','#6b3f2c','#e3b07f'],
     mood: 'bold • pulse • burgundy heat',
+    scene: 'three',
   },
   {
     id: 'believer',
@@ -25,5 +35,15 @@ export const TRACKS: Track[] = [
     file: 'Believer - Liam St. John.mp3',
     palette: ['#86a8e7','#91eae4','#c2e9fb','#a1c4fd'],
     mood: 'intensity • passion',
+    scene: 'believer',
   },
-];
\ No newline at end of file
+];
+
+// Stand-in track shown while the analyser is fed by a microphone or line-in.
+export const LIVE_TRACK: Track = {
+  id: 'live',
+  title: 'Live input',
+  file: '',
+  palette: ['#ff5f6d','#ffc371','#47cacc','#63bcc9'],
+  mood: 'live • unscripted',
+};
\ No newline at end of file
@@ -1,4 +1,7 @@
 import type { Vector3 } from 'three';
+import type { SceneParamValues } from './components/SceneParams';
+
+export type SceneId = 'three' | 'journey' | 'believer' | 'emotion';
 
 export interface Track {
   id: string;
@@ -6,6 +9,17 @@ export interface Track {
   file: string;
   palette: string[];
   mood: string;
+  scene?: SceneId;
+  url?: string;
+  artist?: string;
+  artwork?: string;
+  baseUrl?: string;
+  // LRC or enhanced-LRC file shown over the scene.
+  lyrics?: string;
+  // JSON cue file of scripted scene events; see SceneCues.
+  cues?: string;
+  // Palette and mood were generated as stand-ins; classification may replace them.
+  provisional?: boolean;
 }
 
 export interface Particle {
@@ -19,4 +33,27 @@ export interface Particle {
 export interface Particle3D {
   originalPosition: Vector3;
   velocity: Vector3;
-}
\ No newline at end of file
+}
+
+// The data view's lens in viewport pixels; the immersive view opens from it and closes back to it.
+export interface LensOrigin {
+  x: number;
+  y: number;
+  r: number;
+}
+
+export interface Visualizer {
+  init(): void;
+  destroy(): void;
+  setSize(width: number, height: number, dpr?: number): void;
+  // Eases the scene's colors toward a new palette instead of cutting to it.
+  setPalette(palette: string[]): void;
+  // Values for the scene's declared tunables; missing keys fall back to defaults.
+  setParams(values: SceneParamValues): void;
+  // Index into the scene's quality tiers, cheapest first; the frame-rate governor drives it.
+  setQuality(tier: number): void;
+  // Multiplies the tier's pixel ratio and re-measures the container; previews render below 1.
+  setRenderScale(scale: number): void;
+  pause?(): void;
+  resume?(): void;
+}